@@ -4,4 +4,5 @@ export * from "../macromania_outfs/mod.tsx";
 export * from "../macromania_fs/mod.tsx";
 export * as path from "https://deno.land/std@0.216.0/path/mod.ts";
 export * as posixPath from "https://deno.land/std@0.216.0/path/posix/mod.ts";
+export { encodeBase64 } from "https://deno.land/std@0.216.0/encoding/base64.ts";
 export * as Colors from "https://deno.land/std@0.204.0/fmt/colors.ts";
\ No newline at end of file
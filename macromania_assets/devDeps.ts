@@ -1,2 +1,3 @@
 export { assertEquals } from "https://deno.land/std@0.213.0/assert/mod.ts";
-export { assertFs } from "https://deno.land/x/assert_fs@v0.1.0/mod.ts";
\ No newline at end of file
+export { assertFs } from "https://deno.land/x/assert_fs@v0.1.0/mod.ts";
+export * from "../macromania_config/mod.tsx";
@@ -1,4 +1,4 @@
-import { hrefTo } from "../mod.tsx";
+import { hrefTo, Img, Link, Script, Style } from "../mod.tsx";
 import { posixPath } from "./deps.ts";
 import {
   Colors,
@@ -6,56 +6,197 @@ import {
   copyFile,
   createLogger,
   createSubstate,
+  encodeBase64,
   ensureDir,
+  ensureNot,
+  exists,
   Expression,
+  isDryRun,
+  makeTempDir,
   outCwd,
   outMount,
   path,
+  readDir,
+  readFile,
+  readLink,
+  readTextFile,
+  realPath,
+  registerInput,
+  rename,
+  stat,
+  symlink,
+  writeFile,
+  writeTextFile,
 } from "./deps.ts";
 
 const l = createLogger("LoggerAssets");
 const ConfigMacro = l.ConfigMacro;
 export { ConfigMacro as LoggerAssets };
 
+/**
+ * The name of the asset root used by `Assets` macros that do not specify a
+ * `root`, and by asset paths that are plain arrays.
+ */
+export const defaultAssetRoot = "default";
+
+/**
+ * A path to an asset: the components of its path in the asset directory of
+ * some named root, or just the path components in the
+ * {@linkcode defaultAssetRoot}.
+ */
+export type AssetPath = string[] | RootedAssetPath;
+
+/**
+ * A path to an asset within the asset directory of a named root.
+ */
+export type RootedAssetPath = {
+  root: string;
+  path: string[];
+};
+
+/**
+ * Make the root of an {@linkcode AssetPath} explicit.
+ */
+export function normalizeAssetPath(asset: AssetPath): RootedAssetPath {
+  return Array.isArray(asset) ? { root: defaultAssetRoot, path: asset } : asset;
+}
+
 type AssetsState = {
   /**
    * A map from leaf-file-paths in the AssetTree (as obtained by
-   * `posixPath.join`-ing the path components) that got processed to the
-   * components of the absolute path in the OutFs to which the output was
-   * written.
+   * `JSON.stringify`-ing the root name together with the `posixPath.join`-ed
+   * path components) that got processed to the components of the absolute
+   * path in the OutFs to which the output was written.
    */
   processed: Map<string, string[]>;
   /**
-   * The physical file system path to the asset directory.
+   * A map from the same keys as in `processed` to the physical paths of the
+   * output files.
+   */
+  physicalOutputs: Map<string, string>;
+  /**
+   * A map from the physical paths of all outputs to the assets they were
+   * produced from, for detecting collisions.
+   */
+  outputs: Map<string, RootedAssetPath>;
+  /**
+   * Outputs that transformations wrote in addition to the output they
+   * returned, keyed by `additionalOutputsKey` of the `PathInfo` they were
+   * given. The `Assets` macro moves them into `outputs`.
+   */
+  additionalOutputs: Map<string, string[][]>;
+  /**
+   * A map from the names of the asset roots to the physical file system paths
+   * to their asset directories.
+   */
+  realDirs: Map<string, string>;
+  /**
+   * The keys (as in `processed`) of all assets that were looked up via
+   * `resolveAssetToOutFsPath`, whether the lookup succeeded or not.
+   */
+  resolved: Set<string>;
+  /**
+   * The keys (as in `processed`) of all assets whose outputs were not moved
+   * into place because they had not been looked up (see the `skipUnused` prop
+   * of the `Assets` macro).
    */
-  realDir: string;
+  skipped: Set<string>;
+  /**
+   * The mount points of the OutFs from which staging directories left over
+   * from prior builds have been removed already.
+   */
+  cleanedMounts: Set<string>;
 };
 
 const [getState, _setState] = createSubstate<AssetsState>(() => ({
   processed: new Map(),
-  realDir: "asset directory not yet set",
+  physicalOutputs: new Map(),
+  outputs: new Map(),
+  additionalOutputs: new Map(),
+  realDirs: new Map(),
+  resolved: new Set(),
+  skipped: new Set(),
+  cleanedMounts: new Set(),
 }));
 
 /**
- * Get the filesystem path where Macromania will try to locate assets.
+ * The name prefix of the staging directories of `Assets` macros with
+ * `skipUnused`.
+ */
+const stagingPrefix = ".assets-staging-";
+
+function processedKey(asset: RootedAssetPath): string {
+  return JSON.stringify([asset.root, posixPath.join(...asset.path)]);
+}
+
+function additionalOutputsKey(pathInfo: PathInfo): string {
+  return JSON.stringify([
+    pathInfo.assetsRoot,
+    pathInfo.outRoot,
+    ...pathInfo.fileInAssets,
+  ]);
+}
+
+/**
+ * Register that a transformation wrote a file at `output` (relative to
+ * `pathInfo.outRoot`) in addition to the output it returns. Such outputs are
+ * checked for collisions and reported as unused just like the returned
+ * output, but resolving the asset always yields the returned output.
+ */
+function registerAdditionalOutput(
+  ctx: Context,
+  pathInfo: PathInfo,
+  output: string[],
+) {
+  const additional = getState(ctx).additionalOutputs;
+  const key = additionalOutputsKey(pathInfo);
+  additional.set(key, [...(additional.get(key) ?? []), output]);
+}
+
+/**
+ * Get the filesystem path where Macromania will try to locate the assets of
+ * the given root.
  */
-export function getAssetDirPhysicalPath(ctx: Context) {
-  return getState(ctx).realDir;
+export function getAssetDirPhysicalPath(
+  ctx: Context,
+  root: string = defaultAssetRoot,
+) {
+  return getState(ctx).realDirs.get(root) ?? "asset directory not yet set";
 }
 
 /**
- * Given a sequence of names in the `assets` of the `Assets` macro, returns
- * `null` if no asset under this name has been processed by a transformation,
- * but otherwise returns the absolute path in the OutFs to which its
- * transformation wrote its output file.
+ * Given a path to an asset, returns `null` if no asset under this name has
+ * been processed by a transformation, but otherwise returns the absolute path
+ * in the OutFs to which its transformation wrote its output file.
  */
 export function resolveAssetToOutFsPath(
   ctx: Context,
-  asset: string[],
+  asset: AssetPath,
 ): string[] | null {
-  const processed = getState(ctx).processed;
-  const key = posixPath.join(...asset);
-  const lookup = processed.get(key);
+  const state = getState(ctx);
+  const key = processedKey(normalizeAssetPath(asset));
+  state.resolved.add(key);
+  const lookup = state.processed.get(key);
+
+  if (state.skipped.has(key)) {
+    l.error(
+      ctx,
+      `Asset ${
+        styleAssetPath(asset)
+      } was looked up after its output had been skipped as unused.`,
+    );
+    l.logGroup(ctx, () => {
+      l.error(
+        ctx,
+        `An ${Colors.yellow("Assets")} macro with ${
+          Colors.yellow("skipUnused")
+        } decides which outputs to keep once evaluation has settled, so all lookups must happen before that.`,
+      );
+      l.at(ctx);
+    });
+    ctx.halt();
+    return null;
+  }
 
   if (lookup === undefined) {
     return null;
@@ -67,7 +208,7 @@ export function resolveAssetToOutFsPath(
 /**
  * Render a path to the (possibly transformed and renamed) asset that was located in the asset directory at the given path.
  */
-export function ResolveAsset({ asset }: { asset: string[] }): Expression {
+export function ResolveAsset({ asset }: { asset: AssetPath }): Expression {
   return (
     <impure
       fun={(ctx) => {
@@ -91,6 +232,225 @@ export function ResolveAsset({ asset }: { asset: string[] }): Expression {
   );
 }
 
+/**
+ * The media types of the image formats that {@linkcode InlineAsset} embeds as
+ * `data:` URIs, by file extension.
+ */
+const inlineImageTypes: Record<string, string> = {
+  ".avif": "image/avif",
+  ".bmp": "image/bmp",
+  ".gif": "image/gif",
+  ".ico": "image/x-icon",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+/**
+ * Embed the output of an asset directly into the current file, instead of
+ * linking to it like {@linkcode ResolveAsset} does:
+ *
+ * - SVG files are inlined as markup,
+ * - images are rendered as `<img>` elements with a `data:` URI,
+ * - CSS is inlined into a `<style>` element, and
+ * - JavaScript is inlined into a `<script>` element.
+ *
+ * Outputs larger than `maxSize` bytes are not embedded; the macro then renders
+ * an `<img>`, `<link rel="stylesheet">`, or `<script>` element that links to
+ * the output instead. The same happens in a dry run, if the output was never
+ * written. Other file types are reported as errors, and so are
+ * assets that have not been processed, just like in `ResolveAsset`.
+ *
+ * @param asset - The asset to embed.
+ * @param maxSize - The size in bytes above which to link rather than embed.
+ * Defaults to `10240`.
+ * @param alt - The alternative text for images.
+ */
+export function InlineAsset(
+  { asset, maxSize = 10240, alt }: {
+    asset: AssetPath;
+    maxSize?: number;
+    alt?: Expression;
+  },
+): Expression {
+  return (
+    <impure
+      fun={async (ctx) => {
+        const resolved = resolveAssetToOutFsPath(ctx, asset);
+        if (resolved === null) {
+          l.error(
+            ctx,
+            `Asset at path ${
+              styleAssetPath(asset)
+            } does not resolve to any output path.`,
+          );
+          l.logGroup(ctx, () => {
+            l.error(ctx, `There was no such input asset.`);
+          });
+          return ctx.halt();
+        }
+
+        const outputFile = getState(ctx).physicalOutputs.get(
+          processedKey(normalizeAssetPath(asset)),
+        )!;
+        const extension = path.extname(outputFile).toLowerCase();
+        const imageType = inlineImageTypes[extension];
+        if (
+          imageType === undefined &&
+          ![".svg", ".css", ".js", ".mjs"].includes(extension)
+        ) {
+          l.error(
+            ctx,
+            `Cannot inline asset ${
+              styleAssetPath(asset)
+            }, its file type is not supported.`,
+          );
+          l.logGroup(ctx, () => {
+            l.error(ctx, `Output file: ${outputFile}`);
+            l.error(
+              ctx,
+              `Supported extensions: .svg, .css, .js, .mjs, ${
+                Object.keys(inlineImageTypes).join(", ")
+              }`,
+            );
+          });
+          return ctx.halt();
+        }
+
+        const linkToOutput = () => {
+          const href = hrefTo(ctx, { relativity: -1, components: resolved });
+          if (extension === ".css") {
+            return <Link rel="stylesheet" href={href} />;
+          } else if (extension === ".js" || extension === ".mjs") {
+            return (
+              <Script
+                src={href}
+                type={extension === ".mjs" ? "module" : undefined}
+              />
+            );
+          } else {
+            return <Img src={href} alt={alt} />;
+          }
+        };
+
+        if (isDryRun(ctx) && !(await exists(ctx, outputFile))) {
+          // The transformation did not actually write the output.
+          return linkToOutput();
+        }
+
+        const contents = await readFile(ctx, outputFile);
+
+        if (contents.length > maxSize) {
+          return linkToOutput();
+        }
+
+        const text = new TextDecoder().decode(contents);
+        if (extension === ".svg") {
+          // Drop everything before the root element, such as an XML
+          // declaration or a doctype, which must not occur within HTML.
+          const start = text.search(/<svg[\s>]/);
+          return start === -1 ? text : text.slice(start);
+        } else if (extension === ".css") {
+          return <Style>{escapeClosingTag(text, "style")}</Style>;
+        } else if (extension === ".js" || extension === ".mjs") {
+          return (
+            <Script type={extension === ".mjs" ? "module" : undefined}>
+              {escapeClosingTag(text, "script")}
+            </Script>
+          );
+        } else {
+          return (
+            <Img
+              src={`data:${imageType};base64,${encodeBase64(contents)}`}
+              alt={alt}
+            />
+          );
+        }
+      }}
+    />
+  );
+}
+
+/**
+ * Escape all occurrences of the closing tag of the element with the given
+ * name (matched case-insensitively), so that inlined text cannot end its
+ * surrounding element early. `<\/` is equivalent to `</` in both JavaScript
+ * strings and CSS strings.
+ */
+function escapeClosingTag(text: string, name: string): string {
+  return text.replace(new RegExp(`</(${name})`, "gi"), "<\\/$1");
+}
+
+/**
+ * Get all assets that were processed by a transformation, but that have not
+ * been looked up via {@linkcode resolveAssetToOutFsPath} (which includes
+ * {@linkcode ResolveAsset} and the dependencies of html-utils) so far. The
+ * result is sorted by root and path.
+ */
+export function getUnusedAssets(ctx: Context): RootedAssetPath[] {
+  const state = getState(ctx);
+  // An asset can have several outputs, so deduplicate by key.
+  const unused = new Map<string, RootedAssetPath>();
+
+  for (const asset of state.outputs.values()) {
+    const key = processedKey(asset);
+    if (!state.resolved.has(key)) {
+      unused.set(key, asset);
+    }
+  }
+
+  return [...unused.values()].sort((a, b) => {
+    const keyA = processedKey(a);
+    const keyB = processedKey(b);
+    return keyA < keyB ? -1 : (keyA > keyB ? 1 : 0);
+  });
+}
+
+/**
+ * Once everything else has been evaluated, log a warning for every asset that
+ * was processed but never resolved (see {@linkcode getUnusedAssets}).
+ *
+ * Evaluates to the empty string, or, if `json` is `true`, to a JSON array of
+ * the unused assets (each an object with a `root`, a `path`, and the physical
+ * `output` path), for writing the report to a file.
+ *
+ * To not output unused assets at all, use the `skipUnused` prop of
+ * {@linkcode Assets}.
+ */
+export function ReportUnusedAssets(
+  { json = false }: { json?: boolean },
+): Expression {
+  return (
+    <impure
+      fun={(ctx) => {
+        if (!ctx.mustMakeProgress()) {
+          return null;
+        }
+
+        const state = getState(ctx);
+        const report: (RootedAssetPath & { output: string })[] = [];
+        for (const asset of getUnusedAssets(ctx)) {
+          l.warn(ctx, `Asset ${styleAssetPath(asset)} is never used.`);
+
+          // An asset may have several outputs.
+          const outputs = [...state.outputs]
+            .filter(([_, source]) =>
+              processedKey(source) === processedKey(asset)
+            )
+            .map(([output]) => output)
+            .sort();
+          for (const output of outputs) {
+            report.push({ ...asset, output });
+          }
+        }
+
+        return json ? JSON.stringify(report, null, 2) : "";
+      }}
+    />
+  );
+}
+
 /**
  * Configure how to copy and transform assets from some directory into an
  * output directory.
@@ -99,51 +459,211 @@ export function ResolveAsset({ asset }: { asset: string[] }): Expression {
  *
  * @param input - The components of a relative path from the current working
  * directory of the process to the asset directory.
+ * @param root - The name under which to register the assets, so that several
+ * `Assets` macros do not get into each others way. Defaults to
+ * {@linkcode defaultAssetRoot}.
  * @param assets - A declarative specification of which assets to ignore and
  * which to process (and how).
+ * @param cache - The components of a relative path from the current working
+ * directory of the process to a directory in which to cache the outputs of
+ * transformations, so that unchanged assets need not be transformed again on
+ * the next build. No caching happens if this is omitted.
+ * @param concurrency - How many transformations may run at the same time.
+ * Regardless of the order in which they finish, their outputs are registered
+ * in the order of the (alphabetically sorted) asset directory. Must be a
+ * positive integer, defaults to `1`.
+ * @param skipUnused - If `true`, the outputs of assets that have not been
+ * looked up (see {@linkcode getUnusedAssets}) by the time evaluation has
+ * settled do not end up in the output directory, for example for release
+ * builds. The transformations still run, but write into a staging directory
+ * in the mount point of the OutFs, from which only the outputs of used assets
+ * are moved into place. Looking up a skipped asset afterwards is an error.
+ * Staging directories left over from builds that halted are removed when the
+ * next build begins. Defaults to `false`.
  */
 export function Assets(
-  { input, assets }: {
+  {
+    input,
+    assets,
+    cache,
+    root = defaultAssetRoot,
+    concurrency = 1,
+    skipUnused = false,
+  }: {
     input: string[];
+    root?: string;
     assets: AssetDir;
+    cache?: string[];
+    concurrency?: number;
+    skipUnused?: boolean;
   },
 ): Expression {
   // Track which known files actually  existed, so we can later report
   // inconsistencies with the AssetTree.
   // Strings are like in the `processed` field of the macro state.
   const knownAndProcessed: Set<string> = new Set();
+  // Track which patterns matched at least one file, identified by the path of
+  // their directory joined with the pattern.
+  const matchedPatterns: Set<string> = new Set();
 
   return (
     <impure
       fun={async (ctx: Context) => {
         const state = getState(ctx);
 
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+          l.error(
+            ctx,
+            `The ${
+              Colors.yellow("concurrency")
+            } of Assets must be a positive integer, but it is ${concurrency}.`,
+          );
+          return ctx.halt();
+        }
+
         // Cache the outCwd so that later changes to it dont do anything funky.
         const currentOutCwd = outCwd(ctx);
 
         const cwd = Deno.cwd();
         const realDir = path.join(cwd, ...input);
-        state.realDir = realDir;
+        const previousDir = state.realDirs.get(root);
+        if (previousDir !== undefined && previousDir !== realDir) {
+          l.error(
+            ctx,
+            `Asset root ${
+              Colors.yellow(root)
+            } has already been used for a different asset directory.`,
+          );
+          l.logGroup(ctx, () => {
+            l.error(ctx, `Previous asset directory: ${previousDir}`);
+            l.error(ctx, `New asset directory: ${realDir}`);
+          });
+          return ctx.halt();
+        }
+        state.realDirs.set(root, realDir);
+        // The output depends on everything in the asset directory, including
+        // files that are yet to be added.
+        registerInput(ctx, realDir);
+        const cacheDir = cache === undefined ? null : path.join(cwd, ...cache);
         const realOutDir = path.join(
           outMount(ctx),
           ...currentOutCwd.components,
         );
 
+        // Remove staging directories of prior builds that halted before
+        // publishing, but only once per build, so as to not remove those of
+        // other `Assets` macros.
+        const mount = outMount(ctx);
+        if (!state.cleanedMounts.has(mount)) {
+          state.cleanedMounts.add(mount);
+          if (await exists(ctx, mount)) {
+            for (const entry of await readDir(ctx, mount)) {
+              if (entry.name.startsWith(stagingPrefix)) {
+                await ensureNot(ctx, path.join(mount, entry.name));
+              }
+            }
+          }
+        }
+
+        // With `skipUnused`, the transformations write into a staging
+        // directory instead, see `publishUsedAssets`.
+        const staging = skipUnused
+          ? await makeTempDir(ctx, { dir: mount, prefix: stagingPrefix })
+          : null;
+        if (staging === "") {
+          return null;
+        }
+        const transformOutDir = staging ?? realOutDir;
+        // The assets and all their outputs, if staged.
+        const staged: { source: RootedAssetPath; outputs: string[][] }[] = [];
+
         if (assets.transformation === undefined) {
           assets.transformation = transformCopy;
         }
+        if (assets.symlinks === undefined) {
+          assets.symlinks = "reject";
+        }
+
+        // The traversal only schedules the transformations, which then run
+        // concurrently. Their outputs are registered in traversal order.
+        const scheduled: {
+          asset: string[];
+          run: () => Promise<string[]>;
+        }[] = [];
 
         await processAssetDir(assets, {
           assetsRoot: realDir,
           fileInAssets: [],
-          outRoot: realOutDir,
+          outRoot: transformOutDir,
         });
 
+        const outputs = await runConcurrently(
+          scheduled.map((transform) => transform.run),
+          concurrency,
+        );
+        for (let i = 0; i < scheduled.length; i++) {
+          registerTransformedAsset(scheduled[i].asset, outputs[i]);
+        }
+
         // Now we iterate through all declared assets and check whether any of them
         // are missing from the file system.
         didWeHandleEverythingInThisAssetDir(assets, "");
 
-        return "";
+        return staging === null ? "" : (
+          <impure
+            fun={async (ctx) => {
+              if (!ctx.mustMakeProgress()) {
+                return null;
+              }
+
+              await publishUsedAssets(ctx, staging);
+              return "";
+            }}
+          />
+        );
+
+        /**
+         * Move the staged outputs of all assets that have been looked up into
+         * the output directory, and delete the staging directory with the
+         * outputs of all other assets.
+         */
+        async function publishUsedAssets(ctx: Context, staging: string) {
+          for (const { source, outputs } of staged) {
+            const key = processedKey(source);
+            if (!state.resolved.has(key)) {
+              l.info(
+                ctx,
+                `Skipping the output of unused asset ${styleAssetPath(source)}`,
+              );
+              state.skipped.add(key);
+              continue;
+            }
+
+            for (const output of outputs) {
+              const outputFile = path.join(realOutDir, ...output);
+              await ensureDir(ctx, path.dirname(outputFile));
+              await ensureNot(ctx, outputFile);
+              await rename(ctx, path.join(staging, ...output), outputFile);
+            }
+            state.physicalOutputs.set(
+              key,
+              path.join(realOutDir, ...outputs[0]),
+            );
+          }
+
+          await ensureNot(ctx, staging);
+        }
+
+        /**
+         * Schedule the transformation of the asset at path `asset` (relative to
+         * the directory specified in the `Assets` macro).
+         */
+        function scheduleTransform(
+          asset: string[],
+          run: () => Promise<string[]>,
+        ) {
+          scheduled.push({ asset, run });
+        }
 
         /**
          * Register that the asset at path `asset` (relative to the directory specified
@@ -156,9 +676,69 @@ export function Assets(
           asset: string[],
           output: string[],
         ) {
-          const processed = getState(ctx).processed;
-          const key = posixPath.join(...asset);
-          processed.set(key, [...currentOutCwd.components, ...output]);
+          const source: RootedAssetPath = { root, path: asset };
+          if (!claimOutput(source, output)) {
+            return;
+          }
+
+          state.processed.set(processedKey(source), [
+            ...currentOutCwd.components,
+            ...output,
+          ]);
+          state.physicalOutputs.set(
+            processedKey(source),
+            path.join(transformOutDir, ...output),
+          );
+
+          const additionalKey = additionalOutputsKey({
+            assetsRoot: realDir,
+            fileInAssets: asset,
+            outRoot: transformOutDir,
+          });
+          const additionalOutputs =
+            state.additionalOutputs.get(additionalKey) ??
+              [];
+          for (const additional of additionalOutputs) {
+            if (!claimOutput(source, additional)) {
+              return;
+            }
+          }
+          state.additionalOutputs.delete(additionalKey);
+
+          if (staging !== null) {
+            staged.push({ source, outputs: [output, ...additionalOutputs] });
+          }
+        }
+
+        /**
+         * Record that `source` was transformed into `output` (relative to the
+         * current out directory), or report a collision with another asset and
+         * return `false`.
+         */
+        function claimOutput(
+          source: RootedAssetPath,
+          output: string[],
+        ): boolean {
+          const realOutput = path.join(realOutDir, ...output);
+          const previous = state.outputs.get(realOutput);
+          if (
+            previous !== undefined &&
+            processedKey(previous) !== processedKey(source)
+          ) {
+            l.error(
+              ctx,
+              `Two assets were transformed into the same output file.`,
+            );
+            l.logGroup(ctx, () => {
+              l.error(ctx, `Output file: ${realOutput}`);
+              l.error(ctx, `First asset: ${styleAssetPath(previous)}`);
+              l.error(ctx, `Second asset: ${styleAssetPath(source)}`);
+            });
+            ctx.halt();
+            return false;
+          }
+          state.outputs.set(realOutput, source);
+          return true;
         }
 
         /*
@@ -170,24 +750,73 @@ export function Assets(
         async function processAssetDir(
           tree: AssetDir,
           info: PathInfo,
+          inheritedPatterns: PatternRule[] = [],
+          outerAncestors: string[] = [],
         ) {
           const realPathToThis = path.join(
             info.assetsRoot,
             ...info.fileInAssets,
           );
 
+          // Following symlinks could lead back into a directory we are
+          // already processing.
+          const resolvedPathToThis = await realPath(ctx, realPathToThis);
+          if (resolvedPathToThis === "") {
+            return;
+          }
+          if (outerAncestors.includes(resolvedPathToThis)) {
+            l.error(ctx, `Following symlinks in the assets leads into a cycle`);
+            l.logGroup(ctx, () => {
+              l.error(ctx, `${realPathToThis}`);
+              l.error(ctx, `resolves to ${resolvedPathToThis}`);
+            });
+            ctx.halt();
+            return;
+          }
+          const ancestors = [...outerAncestors, resolvedPathToThis];
+
+          // Patterns of this directory take precedence over those of its
+          // ancestors.
+          const patterns = [
+            ...patternRulesOf(tree, info.fileInAssets),
+            ...inheritedPatterns,
+          ];
+
           // We iterate the real file system, then look up what to do in the tree.
 
-          for await (const entry of Deno.readDir(realPathToThis)) {
+          // Sort the entries, so that transformations are registered in a
+          // deterministic order.
+          const entries = await readDir(ctx, realPathToThis);
+          entries.sort((a, b) =>
+            a.name < b.name ? -1 : (a.name > b.name ? 1 : 0)
+          );
+
+          for (const entry of entries) {
             const realPathToChild = path.join(realPathToThis, entry.name);
 
-            if (entry.isSymlink) {
+            // Whether to treat the entry as a file (rather than a directory).
+            let isFile = entry.isFile;
+            if (entry.isSymlink && tree.symlinks === "follow") {
+              const info = await stat(ctx, realPathToChild);
+              if (info === null) {
+                l.error(ctx, `Failed to follow a symlink in the assets`);
+                l.logGroup(ctx, () => l.error(ctx, `${realPathToChild}`));
+                return ctx.halt();
+              }
+              isFile = info.isFile;
+            }
+
+            if (entry.isSymlink && tree.symlinks === "preserve") {
+              await preserveSymlink(tree, info, entry.name, patterns);
+            } else if (entry.isSymlink && tree.symlinks !== "follow") {
               l.error(ctx, `Assets may not be symlinks`);
               l.logGroup(ctx, () => {
                 l.error(ctx, `${realPathToChild}`);
                 l.error(
                   ctx,
-                  `Feel free to contribute some code to change this, though =)`,
+                  `Set the ${
+                    Colors.yellow("symlinks")
+                  } of the AssetDir to "follow" or "preserve" to allow them.`,
                 );
               });
               ctx.halt();
@@ -204,19 +833,50 @@ export function Assets(
                 ? tree.children[entry.name]
                 : undefined;
 
-              if (entry.isFile) {
+              if (isFile) {
                 // Apply a transform or not, depending on what we knew about this.
 
-                if (subtree === undefined) {
-                  // We did not know about this name, so simply apply our transform.
-                  if (tree.transformation !== "ignore") {
-                    const outputLocation = await tree.transformation!(
-                      ctx,
-                      childPathInfo,
+                const pattern = subtree === undefined
+                  ? patterns.find((rule) =>
+                    rule.regex.test(
+                      posixPath.join(
+                        ...childPathInfo.fileInAssets.slice(rule.base.length),
+                      ),
+                    )
+                  )
+                  : undefined;
+
+                if (pattern !== undefined) {
+                  // We did not know about this name, but it matches a pattern.
+                  matchedPatterns.add(pattern.id);
+                  const transformation = pattern.transformation;
+                  if (transformation !== "ignore") {
+                    scheduleTransform(
+                      childPathInfo.fileInAssets,
+                      () =>
+                        runTransform(
+                          ctx,
+                          transformation,
+                          childPathInfo,
+                          root,
+                          cacheDir,
+                        ),
                     );
-                    registerTransformedAsset(
+                  }
+                } else if (subtree === undefined) {
+                  // We did not know about this name, so simply apply our transform.
+                  const transformation = tree.transformation!;
+                  if (transformation !== "ignore") {
+                    scheduleTransform(
                       childPathInfo.fileInAssets,
-                      outputLocation,
+                      () =>
+                        runTransform(
+                          ctx,
+                          transformation,
+                          childPathInfo,
+                          root,
+                          cacheDir,
+                        ),
                     );
                   }
                 } else if (subtree === "ignore") {
@@ -227,10 +887,10 @@ export function Assets(
                   );
                 } else if (isAssetTransform(subtree)) {
                   // We knew about this file, it has a specific transform in mind.
-                  const outputLocation = await subtree(ctx, childPathInfo);
-                  registerTransformedAsset(
+                  scheduleTransform(
                     childPathInfo.fileInAssets,
-                    outputLocation,
+                    () =>
+                      runTransform(ctx, subtree, childPathInfo, root, cacheDir),
                   );
 
                   // Mark file as processed.
@@ -248,8 +908,14 @@ export function Assets(
                 if (subtree === undefined) {
                   // An unknown directory, keep processing it with the same transform.
                   await processAssetDir(
-                    { transformation: tree.transformation, children: {} },
+                    {
+                      transformation: tree.transformation,
+                      symlinks: tree.symlinks,
+                      children: {},
+                    },
                     childPathInfo,
+                    patterns,
+                    ancestors,
                   );
                 } else if (subtree === "ignore" || isAssetTransform(subtree)) {
                   // We knew about this directory, but we expected a leaf file :(
@@ -266,9 +932,12 @@ export function Assets(
                       transformation: subtree.transformation === undefined
                         ? tree.transformation
                         : subtree.transformation,
+                      symlinks: subtree.symlinks ?? tree.symlinks,
                       children: subtree.children,
                     },
                     childPathInfo,
+                    patterns,
+                    ancestors,
                   );
 
                   // Mark file as processed.
@@ -281,6 +950,167 @@ export function Assets(
           }
         }
 
+        /**
+         * Schedule reproducing a symlink of the assets as a symlink in the
+         * output, pointing to the output location of its target via a relative
+         * path (unless it is ignored). Targets outside of the asset directory
+         * are an error. If the symlink is explicitly mapped to a
+         * transformation (by its name or by a pattern), its target is
+         * transformed instead, as if following the symlink.
+         */
+        async function preserveSymlink(
+          tree: AssetDir,
+          info: PathInfo,
+          name: string,
+          patterns: PatternRule[],
+        ) {
+          const fileInAssets = [...info.fileInAssets, name];
+          const subtree = tree.children !== undefined
+            ? tree.children[name]
+            : undefined;
+          const pattern = subtree === undefined
+            ? patterns.find((rule) =>
+              rule.regex.test(
+                posixPath.join(...fileInAssets.slice(rule.base.length)),
+              )
+            )
+            : undefined;
+
+          if (subtree !== undefined) {
+            knownAndProcessed.add(posixPath.join(...fileInAssets));
+          }
+          if (pattern !== undefined) {
+            matchedPatterns.add(pattern.id);
+          }
+
+          const explicit = subtree === undefined
+            ? pattern?.transformation
+            : (subtree === "ignore" || isAssetTransform(subtree)
+              ? subtree
+              : undefined);
+          if (
+            explicit === "ignore" ||
+            (explicit === undefined && subtree === undefined &&
+              tree.transformation === "ignore")
+          ) {
+            return;
+          }
+
+          const realPathToChild = path.join(info.assetsRoot, ...fileInAssets);
+
+          if (explicit !== undefined) {
+            const targetInfo = await stat(ctx, realPathToChild);
+            if (targetInfo === null) {
+              return;
+            }
+            if (!targetInfo.isFile) {
+              l.error(
+                ctx,
+                `Expected a non-directory file at ${realPathToChild}`,
+              );
+              return ctx.halt();
+            }
+
+            const childPathInfo: PathInfo = {
+              assetsRoot: info.assetsRoot,
+              fileInAssets,
+              outRoot: info.outRoot,
+            };
+            scheduleTransform(
+              fileInAssets,
+              () => runTransform(ctx, explicit, childPathInfo, root, cacheDir),
+            );
+            return;
+          }
+
+          const linkTarget = await readLink(ctx, realPathToChild);
+          if (linkTarget === "") {
+            return;
+          }
+          // The output mirrors the asset directory, so a target inside the
+          // assets maps onto the output via the same relative path.
+          const target = path.resolve(
+            path.dirname(realPathToChild),
+            linkTarget,
+          );
+          const targetInAssets = path.relative(info.assetsRoot, target);
+          if (
+            targetInAssets.split(path.SEPARATOR)[0] === ".." ||
+            path.isAbsolute(targetInAssets)
+          ) {
+            l.error(
+              ctx,
+              `Cannot preserve a symlink that points outside of the assets`,
+            );
+            l.logGroup(ctx, () => {
+              l.error(ctx, `${realPathToChild}`);
+              l.error(ctx, `points to ${target}`);
+              l.error(
+                ctx,
+                `Set the ${
+                  Colors.yellow("symlinks")
+                } of the AssetDir to "follow" to copy the target instead.`,
+              );
+            });
+            return ctx.halt();
+          }
+
+          scheduleTransform(fileInAssets, async () => {
+            const outputFile = path.join(info.outRoot, ...fileInAssets);
+            await ensureDir(ctx, path.dirname(outputFile));
+            await ensureNot(ctx, outputFile);
+            await symlink(
+              ctx,
+              path.relative(path.dirname(realPathToChild), target) || ".",
+              outputFile,
+            );
+            return fileInAssets;
+          });
+        }
+
+        /**
+         * Collect the patterns among the children of an AssetDir at the given
+         * path, in the order in which they were declared.
+         */
+        function patternRulesOf(
+          dir: AssetDir,
+          pathToDir: string[],
+        ): PatternRule[] {
+          const rules: PatternRule[] = [];
+
+          for (const key in dir.children) {
+            if (!isPattern(key)) {
+              continue;
+            }
+
+            const child = dir.children[key];
+            if (child === "ignore" || isAssetTransform(child)) {
+              rules.push({
+                id: posixPath.join(...pathToDir, key),
+                regex: posixPath.globToRegExp(key),
+                base: pathToDir,
+                transformation: child,
+              });
+            } else {
+              l.error(
+                ctx,
+                `Asset declaration mapped a pattern to a directory, but patterns can only specify transforms for files.`,
+              );
+              l.logGroup(ctx, () => {
+                l.error(
+                  ctx,
+                  `Pattern in the assets dir: ${
+                    posixPath.join(...pathToDir, key)
+                  }`,
+                );
+              });
+              ctx.halt();
+            }
+          }
+
+          return rules;
+        }
+
         function didWeHandleEverythingInThisAssetDir(
           dir: AssetDir,
           pathToDir: string,
@@ -289,7 +1119,21 @@ export function Assets(
             const child = dir.children[key];
             const childPath = posixPath.join(pathToDir, key);
 
-            if (child === "ignore" || isAssetTransform(child)) {
+            if (isPattern(key)) {
+              if (
+                (child === "ignore" || isAssetTransform(child)) &&
+                !matchedPatterns.has(childPath)
+              ) {
+                l.error(
+                  ctx,
+                  `Asset declaration specified a transform for a pattern, but the pattern matched no file in the real file system.`,
+                );
+                l.logGroup(ctx, () => {
+                  l.error(ctx, `Pattern in the assets dir: ${childPath}`);
+                });
+                ctx.halt();
+              }
+            } else if (child === "ignore" || isAssetTransform(child)) {
               // Leaf child.
               if (!knownAndProcessed.has(childPath)) {
                 l.error(
@@ -346,12 +1190,69 @@ export function Assets(
  * Mapping a name to another `AssetDir` indicates a nested directory, which can
  * be configured in the same way (its `transformation`, if specified,
  * overwriting that of its parent).
+ *
+ * Keys of the `children` that contain any of `*?[]{}` are glob patterns
+ * instead, which must map to `"ignore"` or an {@linkcode AssetTransform}.
+ * They are matched against the path of each file relative to this directory,
+ * so `"*.css"` matches only files directly in this directory, whereas `**`
+ * spans any number of directories (as in `"drafts/**"`).
+ * A file is processed according to the first applicable of these rules: its
+ * exact name in the `children` of its directory, a matching pattern (patterns
+ * of nested directories before those of their ancestors, and patterns of the
+ * same directory in the order of declaration), and finally the
+ * `transformation` of its directory.
+ *
+ * The `symlinks` property selects how to deal with symlinks in this directory
+ * (see {@linkcode SymlinkPolicy}). If it is `undefined`, the policy of the
+ * parent directory is used; the default at the top level is `"reject"`.
  */
 export type AssetDir = {
   transformation?: "ignore" | AssetTransform;
+  symlinks?: SymlinkPolicy;
   children?: Record<string, AssetDir | ("ignore" | AssetTransform)>;
 };
 
+/**
+ * How to deal with symlinks in an asset directory:
+ *
+ * - `"reject"`: report an error and halt.
+ * - `"follow"`: process the target of the symlink as if it was located where
+ *   the symlink is. Symlinks to directories that lead into a cycle are
+ *   reported as errors.
+ * - `"preserve"`: create a symlink in the output, pointing to the location in
+ *   the output that mirrors the target of the original symlink, via a relative
+ *   path. Targets outside of the asset directory are reported as errors. The
+ *   target is not transformed, but the symlink is registered as the output
+ *   for its own path, just like a copied file. Setting the symlink to
+ *   `"ignore"` skips it, and mapping it to a transformation (by its name or by
+ *   a pattern) transforms its target as if following the symlink.
+ */
+export type SymlinkPolicy = "reject" | "follow" | "preserve";
+
+/**
+ * A pattern key of an {@linkcode AssetDir}, prepared for matching.
+ */
+type PatternRule = {
+  /**
+   * The path of the declaring directory joined with the pattern.
+   */
+  id: string;
+  regex: RegExp;
+  /**
+   * The path components of the declaring directory within the assets.
+   */
+  base: string[];
+  transformation: "ignore" | AssetTransform;
+};
+
+/**
+ * Whether a key in the `children` of an {@linkcode AssetDir} is a glob
+ * pattern rather than a name.
+ */
+function isPattern(key: string): boolean {
+  return /[*?[\]{}]/.test(key);
+}
+
 /**
  * A function for transforming assets, reading them from an asset directory, and
  * placing the result in the OutFs.
@@ -361,10 +1262,20 @@ export type AssetDir = {
  *
  * Invoked for leaf files only, not for directories.
  */
-export type AssetTransform = (
-  ctx: Context,
-  pathInfo: PathInfo,
-) => Promise<string[]>;
+export type AssetTransform =
+  & ((
+    ctx: Context,
+    pathInfo: PathInfo,
+  ) => Promise<string[]>)
+  & {
+    /**
+     * Identifies this transformation in the transform cache of the `Assets`
+     * macro. Include a version and any options that affect the output, and
+     * change it whenever the output for a given input might change. The
+     * output of transformations without a `cacheId` is never cached.
+     */
+    cacheId?: string;
+  };
 
 function isAssetTransform(
   // deno-lint-ignore no-explicit-any
@@ -423,9 +1334,317 @@ export async function transformCopy(
 }
 
 /**
- * Pretty-print the asset path components as expected by
- * `resolveAssetToOutFsPath`.
+ * Options for {@linkcode createFingerprintTransform}.
+ */
+export type FingerprintOptions = {
+  /**
+   * The transformation whose output to fingerprint. Defaults to
+   * {@linkcode transformCopy}.
+   */
+  transformation?: AssetTransform;
+  /**
+   * How many hexadecimal digits of the SHA-256 hash of the output to add to
+   * its name. Defaults to `8`.
+   */
+  hashLength?: number;
+  /**
+   * Whether to keep a copy of the output under its unhashed name as well, for
+   * consumers outside of Macromania. Macros resolving the asset always use
+   * the fingerprinted name. Defaults to `false`.
+   */
+  keepUnhashed?: boolean;
+};
+
+/**
+ * Create a transformation that runs another transformation, and then renames
+ * its output to include a hash of the output contents, for example from
+ * `style.css` to `style.3f2a9c1b.css`. Since the fingerprinted name is what
+ * gets registered, `ResolveAsset` and `resolveAssetToOutFsPath` automatically
+ * point to it. In a dry run, the output does not exist, so it keeps its
+ * unhashed name.
+ */
+export function createFingerprintTransform(
+  options: FingerprintOptions = {},
+): AssetTransform {
+  const transformation = options.transformation ?? transformCopy;
+  const hashLength = options.hashLength ?? 8;
+
+  const transform: AssetTransform = async (ctx, pathInfo) => {
+    const output = await transformation(ctx, pathInfo);
+    const outputFile = path.join(pathInfo.outRoot, ...output);
+
+    if (isDryRun(ctx) && !(await exists(ctx, outputFile))) {
+      // Without the output, there is nothing to hash.
+      l.info(
+        ctx,
+        `[dry run] Would add a fingerprint to the name of ${outputFile}.`,
+      );
+      return output;
+    }
+
+    const contents = await readFile(ctx, outputFile);
+    const hash = (await sha256Hex(contents)).slice(0, hashLength);
+
+    const fingerprinted = [
+      ...output.slice(0, -1),
+      fingerprintName(output[output.length - 1], hash),
+    ];
+    await rename(
+      ctx,
+      outputFile,
+      path.join(pathInfo.outRoot, ...fingerprinted),
+    );
+    if (options.keepUnhashed) {
+      await writeFile(ctx, outputFile, contents);
+      registerAdditionalOutput(ctx, pathInfo, output);
+    }
+
+    return fingerprinted;
+  };
+
+  // The cache stores only a single output file, so it cannot restore the
+  // unhashed copy.
+  if (transformation.cacheId !== undefined && !options.keepUnhashed) {
+    transform.cacheId = `fingerprint-${hashLength}(${transformation.cacheId})`;
+  }
+
+  return transform;
+}
+
+/**
+ * Copy the input file to the output directory, adding a hash of its contents
+ * to its name. See {@linkcode createFingerprintTransform}.
+ */
+export const transformFingerprint: AssetTransform =
+  createFingerprintTransform();
+
+/**
+ * Insert a hash before the extension of a file name.
+ */
+function fingerprintName(name: string, hash: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot <= 0
+    ? `${name}.${hash}`
+    : `${name.slice(0, dot)}.${hash}${name.slice(dot)}`;
+}
+
+/**
+ * An entry of the transform cache of the `Assets` macro.
+ */
+export type AssetCacheEntry = {
+  /**
+   * The name of the directory of this entry within the cache directory,
+   * derived from the `transform`, the `root`, the `input` path, and the hash
+   * of the input contents.
+   */
+  key: string;
+  /**
+   * The `cacheId` of the transformation that produced the output.
+   */
+  transform: string;
+  /**
+   * The name of the asset root of the input file.
+   */
+  root: string;
+  /**
+   * The path components of the input file within its asset directory.
+   */
+  input: string[];
+  /**
+   * The path components of the output, as returned by the transformation.
+   */
+  output: string[];
+};
+
+/**
+ * Run a transformation, or reuse its cached output if the same input file
+ * with the same contents has already been transformed by it.
  */
-export function styleAssetPath(path: string[]): string {
-  return Colors.brightYellow(JSON.stringify(path));
+async function runTransform(
+  ctx: Context,
+  transform: AssetTransform,
+  pathInfo: PathInfo,
+  root: string,
+  cacheDir: string | null,
+): Promise<string[]> {
+  const transformId = transform.cacheId;
+  if (cacheDir === null || transformId === undefined) {
+    return await transform(ctx, pathInfo);
+  }
+
+  const input = await readFile(
+    ctx,
+    path.join(pathInfo.assetsRoot, ...pathInfo.fileInAssets),
+  );
+  const key = await sha256Hex(
+    new TextEncoder().encode(
+      `${
+        JSON.stringify([transformId, root, ...pathInfo.fileInAssets])
+      }\n${await sha256Hex(input)}`,
+    ),
+  );
+  const entryDir = path.join(cacheDir, key);
+
+  const cached = await readCacheEntry(ctx, entryDir);
+  if (cached !== null) {
+    const [entry, contents] = cached;
+    const outputFile = path.join(pathInfo.outRoot, ...entry.output);
+    await ensureDir(ctx, path.dirname(outputFile));
+    await writeFile(ctx, outputFile, contents);
+    l.trace(
+      ctx,
+      `Reused cached output of ${transformId} for asset ${
+        styleAssetPath(pathInfo.fileInAssets)
+      }`,
+    );
+    return entry.output;
+  }
+
+  const output = await transform(ctx, pathInfo);
+
+  const outputFile = path.join(pathInfo.outRoot, ...output);
+  if (
+    !(await exists(ctx, outputFile)) ||
+    !(await stat(ctx, outputFile))?.isFile
+  ) {
+    // Nothing we could cache.
+    return output;
+  }
+  const contents = await readFile(ctx, outputFile);
+
+  const entry: AssetCacheEntry = {
+    key,
+    transform: transformId,
+    root,
+    input: pathInfo.fileInAssets,
+    output,
+  };
+  await ensureDir(ctx, entryDir);
+  // Write the entry description last, so that only complete entries are used.
+  await writeFile(ctx, path.join(entryDir, "output"), contents);
+  await writeTextFile(
+    ctx,
+    path.join(entryDir, "entry.json"),
+    JSON.stringify(entry, null, 2),
+  );
+
+  return output;
+}
+
+/**
+ * Read the description and the output contents of a cache entry, or return
+ * `null` if there is no complete entry.
+ */
+async function readCacheEntry(
+  ctx: Context,
+  entryDir: string,
+): Promise<[AssetCacheEntry, Uint8Array] | null> {
+  const entryFile = path.join(entryDir, "entry.json");
+  const outputFile = path.join(entryDir, "output");
+  if (!(await exists(ctx, entryFile)) || !(await exists(ctx, outputFile))) {
+    return null;
+  }
+
+  let entry: AssetCacheEntry;
+  try {
+    entry = JSON.parse(await readTextFile(ctx, entryFile));
+  } catch (_err) {
+    return null;
+  }
+  return [entry, await readFile(ctx, outputFile)];
+}
+
+/**
+ * List the entries of a transform cache.
+ *
+ * @param cache - The components of a relative path from the current working
+ * directory of the process to the cache directory, as given to the `Assets`
+ * macro.
+ */
+export async function inspectAssetCache(
+  ctx: Context,
+  cache: string[],
+): Promise<AssetCacheEntry[]> {
+  const cacheDir = path.join(Deno.cwd(), ...cache);
+  const entries: AssetCacheEntry[] = [];
+
+  if (await exists(ctx, cacheDir)) {
+    for (const dirEntry of await readDir(ctx, cacheDir)) {
+      const cached = await readCacheEntry(
+        ctx,
+        path.join(cacheDir, dirEntry.name),
+      );
+      if (cached !== null) {
+        entries.push(cached[0]);
+      }
+    }
+  }
+
+  return entries.sort((a, b) => a.key < b.key ? -1 : (a.key > b.key ? 1 : 0));
+}
+
+/**
+ * Delete a transform cache, so that all transformations run again.
+ *
+ * @param cache - The components of a relative path from the current working
+ * directory of the process to the cache directory, as given to the `Assets`
+ * macro.
+ */
+export async function clearAssetCache(ctx: Context, cache: string[]) {
+  await ensureNot(ctx, path.join(Deno.cwd(), ...cache));
+}
+
+/**
+ * Run some tasks, at most `limit` at a time, and return their results in the
+ * order of the tasks. If any task fails, all others still run to completion,
+ * and then the error of the first failing task is thrown.
+ */
+async function runConcurrently<T>(
+  tasks: (() => Promise<T>)[],
+  limit: number,
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  const failures: { index: number; err: unknown }[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < tasks.length) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = await tasks[index]();
+      } catch (err) {
+        failures.push({ index, err });
+      }
+    }
+  }
+
+  const workers = Math.max(1, Math.min(limit, tasks.length));
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+
+  if (failures.length > 0) {
+    failures.sort((a, b) => a.index - b.index);
+    throw failures[0].err;
+  }
+  return results;
+}
+
+/**
+ * The lowercase hexadecimal SHA-256 hash of some bytes.
+ */
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Pretty-print an asset path as expected by `resolveAssetToOutFsPath`.
+ */
+export function styleAssetPath(asset: AssetPath): string {
+  return Colors.brightYellow(
+    Array.isArray(asset)
+      ? JSON.stringify(asset)
+      : `${asset.root}:${JSON.stringify(asset.path)}`,
+  );
 }
@@ -1,8 +1,34 @@
-import { Assets, resolveAssetToOutFsPath, transformCopy } from "../mod.tsx";
-import { Context, Dir, posixPath } from "../deps.ts";
-import { assertEquals, assertFs } from "../devDeps.ts";
+import {
+  AssetPath,
+  Assets,
+  AssetTransform,
+  clearAssetCache,
+  createFingerprintTransform,
+  defaultAssetRoot,
+  getUnusedAssets,
+  InlineAsset,
+  inspectAssetCache,
+  ReportUnusedAssets,
+  resolveAssetToOutFsPath,
+  transformCopy,
+  transformFingerprint,
+} from "../mod.tsx";
+import {
+  ConfigFs,
+  Context,
+  createMemoryProvider,
+  Dir,
+  diskProvider,
+  encodeBase64,
+  path,
+  posixPath,
+} from "../deps.ts";
+import { assertEquals, assertFs, Config } from "../devDeps.ts";
 
-function assertMapping(ctx: Context, mapping: [string[], string[] | null][]) {
+function assertMapping(
+  ctx: Context,
+  mapping: [AssetPath, string[] | null][],
+) {
   for (const [assetPath, expectedPath] of mapping) {
     assertEquals(resolveAssetToOutFsPath(ctx, assetPath), expectedPath);
   }
@@ -157,3 +183,642 @@ Deno.test("inherit from parent", async () => {
     ]],
   ]);
 });
+
+Deno.test("fingerprinted names", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Dir name="got04">
+      <Assets
+        input={["testInputDir"]}
+        assets={{
+          transformation: transformFingerprint,
+          children: {
+            "a.txt": createFingerprintTransform({ keepUnhashed: true }),
+          },
+        }}
+      />
+    </Dir>,
+  );
+  assertEquals(got, "");
+  await assertFs("./got04", "./expected04");
+
+  assertMapping(ctx, [
+    [["a.txt"], ["got04", "a.559aead0.txt"]],
+    [["b.txt"], ["got04", "b.df7e70e5.txt"]],
+    [["nested", "c.txt"], ["got04", "nested", "c.6b23c0d5.txt"]],
+    [["nested", "d.txt"], ["got04", "nested", "d.3f39d5c3.txt"]],
+    [["nested", "nestedAgain", "e.txt"], [
+      "got04",
+      "nested",
+      "nestedAgain",
+      "e.a9f51566.txt",
+    ]],
+    [["nested", "nestedAgain", "f.txt"], [
+      "got04",
+      "nested",
+      "nestedAgain",
+      "f.f67ab10a.txt",
+    ]],
+  ]);
+});
+
+Deno.test("transform cache", async () => {
+  let runs = 0;
+  const transformCounting: AssetTransform = (ctx, pathInfo) => {
+    runs += 1;
+    return transformCopy(ctx, pathInfo);
+  };
+  transformCounting.cacheId = "counting-1";
+
+  const ctx = new Context();
+  await clearAssetCache(ctx, ["cache05"]);
+
+  for (let i = 0; i < 2; i++) {
+    const ctx = new Context();
+    const got = await ctx.evaluate(
+      <Dir name="got05">
+        <Assets
+          input={["testInputDir"]}
+          assets={{ transformation: transformCounting, children: {} }}
+          cache={["cache05"]}
+        />
+      </Dir>,
+    );
+    assertEquals(got, "");
+    await assertFs("./got05", "./expected00");
+    assertEquals(runs, 6);
+
+    assertMapping(ctx, [
+      [["a.txt"], ["got05", "a.txt"]],
+      [["nested", "nestedAgain", "f.txt"], [
+        "got05",
+        "nested",
+        "nestedAgain",
+        "f.txt",
+      ]],
+    ]);
+  }
+
+  const entries = await inspectAssetCache(ctx, ["cache05"]);
+  assertEquals(entries.length, 6);
+  assertEquals(
+    entries.map((entry) => entry.transform),
+    new Array(6).fill("counting-1"),
+  );
+
+  await clearAssetCache(ctx, ["cache05"]);
+  assertEquals(await inspectAssetCache(ctx, ["cache05"]), []);
+});
+
+Deno.test("patterns", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Dir name="got06">
+      <Assets
+        input={["testInputDir"]}
+        assets={{
+          children: {
+            "*.txt": "ignore",
+            "**/e.*": "ignore",
+            nested: {
+              children: {
+                "*.txt": "ignore",
+                "d.txt": transformCopy,
+              },
+            },
+          },
+        }}
+      />
+    </Dir>,
+  );
+  assertEquals(got, "");
+  await assertFs("./got06", "./expected06");
+
+  assertMapping(ctx, [
+    [["a.txt"], null],
+    [["b.txt"], null],
+    [["nested", "c.txt"], null],
+    [["nested", "d.txt"], ["got06", "nested", "d.txt"]],
+    [["nested", "nestedAgain", "e.txt"], null],
+    [["nested", "nestedAgain", "f.txt"], [
+      "got06",
+      "nested",
+      "nestedAgain",
+      "f.txt",
+    ]],
+  ]);
+});
+
+Deno.test("named roots", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Dir name="got07">
+      <Dir name="theme">
+        <Assets
+          input={["testInputDir"]}
+          root="theme"
+          assets={{
+            transformation: "ignore",
+            children: { "a.txt": transformCopy },
+          }}
+        />
+      </Dir>
+      <Dir name="doc">
+        <Assets
+          input={["testInputDir", "nested"]}
+          assets={{
+            transformation: "ignore",
+            children: { "c.txt": transformCopy },
+          }}
+        />
+      </Dir>
+    </Dir>,
+  );
+  assertEquals(got, "");
+  await assertFs("./got07", "./expected07");
+
+  assertMapping(ctx, [
+    [{ root: "theme", path: ["a.txt"] }, ["got07", "theme", "a.txt"]],
+    [{ root: "theme", path: ["nested", "c.txt"] }, null],
+    [["a.txt"], null],
+    [["c.txt"], ["got07", "doc", "c.txt"]],
+    [{ root: defaultAssetRoot, path: ["c.txt"] }, ["got07", "doc", "c.txt"]],
+  ]);
+});
+
+Deno.test("follow symlinks", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Dir name="got08">
+      <Assets
+        input={["testSymlinkDir"]}
+        assets={{ symlinks: "follow", children: {} }}
+      />
+    </Dir>,
+  );
+  assertEquals(got, "");
+  await assertFs("./got08", "./expected08");
+
+  assertMapping(ctx, [
+    [["a.txt"], ["got08", "a.txt"]],
+    [["linked", "e.txt"], ["got08", "linked", "e.txt"]],
+    [["linked", "f.txt"], ["got08", "linked", "f.txt"]],
+  ]);
+});
+
+Deno.test("preserve symlinks", async () => {
+  const provider = createMemoryProvider();
+  const input = path.join(Deno.cwd(), "memoryPreserveDir");
+  await provider.mkdir(path.join(input, "vendor"), { recursive: true });
+  await provider.writeTextFile(path.join(input, "vendor", "lib.js"), "lib");
+  await provider.writeTextFile(path.join(input, "vendor", "s.css"), "s");
+  await provider.symlink("vendor/lib.js", path.join(input, "lib.js"));
+  await provider.symlink("vendor/s.css", path.join(input, "s.css"));
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <Dir name="gotPreserve">
+        <Assets
+          input={["memoryPreserveDir"]}
+          assets={{
+            symlinks: "preserve",
+            children: { "s.css": transformCopy },
+          }}
+        />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "");
+
+  // Preserved symlinks point to the output of their target.
+  const output = path.join(Deno.cwd(), "gotPreserve");
+  assertEquals(
+    await provider.readLink(path.join(output, "lib.js")),
+    path.join("vendor", "lib.js"),
+  );
+  assertEquals(
+    await provider.readTextFile(path.join(output, "lib.js")),
+    "lib",
+  );
+
+  // Explicitly transformed symlinks are not preserved.
+  assertEquals(
+    (await provider.lstat(path.join(output, "s.css"))).isSymlink,
+    false,
+  );
+  assertEquals(await provider.readTextFile(path.join(output, "s.css")), "s");
+
+  assertMapping(ctx, [
+    [["lib.js"], ["gotPreserve", "lib.js"]],
+    [["s.css"], ["gotPreserve", "s.css"]],
+  ]);
+});
+
+Deno.test("preserve symlinks outside of the assets", async () => {
+  const provider = createMemoryProvider();
+  const input = path.join(Deno.cwd(), "memoryOutsideDir");
+  await provider.mkdir(input, { recursive: true });
+  await provider.writeTextFile(path.join(Deno.cwd(), "outside.txt"), "out");
+  await provider.symlink("../outside.txt", path.join(input, "outside.txt"));
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <Dir name="gotOutside">
+        <Assets
+          input={["memoryOutsideDir"]}
+          assets={{ symlinks: "preserve", children: {} }}
+        />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, null);
+});
+
+Deno.test("follow dangling symlinks", async () => {
+  const provider = createMemoryProvider();
+  const input = path.join(Deno.cwd(), "memoryDanglingDir");
+  await provider.mkdir(input, { recursive: true });
+  await provider.symlink("missing.txt", path.join(input, "dangling.txt"));
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <Dir name="gotDangling">
+        <Assets
+          input={["memoryDanglingDir"]}
+          assets={{ symlinks: "follow", children: {} }}
+        />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, null);
+});
+
+Deno.test("symlink cycles", async () => {
+  const provider = createMemoryProvider();
+  const input = path.join(Deno.cwd(), "memoryCycleDir");
+  await provider.mkdir(input, { recursive: true });
+  await provider.writeTextFile(path.join(input, "a.txt"), "a");
+  await provider.symlink(".", path.join(input, "loop"));
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <Dir name="gotCycle">
+        <Assets
+          input={["memoryCycleDir"]}
+          assets={{ symlinks: "follow", children: {} }}
+        />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, null);
+});
+
+Deno.test("concurrent transformations", async () => {
+  let running = 0;
+  let maxRunning = 0;
+  const transformSlowly: AssetTransform = async (ctx, pathInfo) => {
+    running += 1;
+    maxRunning = Math.max(maxRunning, running);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const output = await transformCopy(ctx, pathInfo);
+    running -= 1;
+    return output;
+  };
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Dir name="got09">
+      <Assets
+        input={["testInputDir"]}
+        assets={{ transformation: transformSlowly, children: {} }}
+        concurrency={2}
+      />
+    </Dir>,
+  );
+  assertEquals(got, "");
+  await assertFs("./got09", "./expected00");
+  assertEquals(maxRunning, 2);
+
+  assertMapping(ctx, [
+    [["a.txt"], ["got09", "a.txt"]],
+    [["b.txt"], ["got09", "b.txt"]],
+    [["nested", "c.txt"], ["got09", "nested", "c.txt"]],
+    [["nested", "nestedAgain", "f.txt"], [
+      "got09",
+      "nested",
+      "nestedAgain",
+      "f.txt",
+    ]],
+  ]);
+});
+
+Deno.test("invalid concurrency", async () => {
+  for (const concurrency of [0, -1, 1.5, NaN]) {
+    const ctx = new Context();
+    const got = await ctx.evaluate(
+      <Dir name="gotConcurrency">
+        <Assets
+          input={["testInputDir"]}
+          assets={{}}
+          concurrency={concurrency}
+        />
+      </Dir>,
+    );
+    assertEquals(got, null);
+  }
+});
+
+Deno.test("unused assets", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Dir name="got10">
+      <Assets
+        input={["testInputDir"]}
+        assets={{
+          transformation: "ignore",
+          children: { "a.txt": transformCopy, "b.txt": transformCopy },
+        }}
+        skipUnused
+      />
+      <impure
+        fun={(ctx) => {
+          resolveAssetToOutFsPath(ctx, ["a.txt"]);
+          return "";
+        }}
+      />
+      <ReportUnusedAssets />
+    </Dir>,
+  );
+  assertEquals(got, "");
+  await assertFs("./got10", "./expected10");
+  // The staging directory is gone.
+  assertEquals(
+    [...Deno.readDirSync(".")].filter((entry) =>
+      entry.name.startsWith(".assets-staging-")
+    ),
+    [],
+  );
+
+  assertEquals(getUnusedAssets(ctx), [
+    { root: defaultAssetRoot, path: ["b.txt"] },
+  ]);
+});
+
+Deno.test("skip unused assets with preserved symlinks", async () => {
+  const provider = createMemoryProvider();
+  const input = path.join(Deno.cwd(), "memorySkipDir");
+  await provider.mkdir(path.join(input, "vendor"), { recursive: true });
+  await provider.writeTextFile(path.join(input, "vendor", "lib.js"), "lib");
+  await provider.symlink("vendor/lib.js", path.join(input, "lib.js"));
+  // Left over from a prior build that halted before publishing.
+  await provider.mkdir(path.join(Deno.cwd(), ".assets-staging-leftover"));
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <Dir name="gotSkipPreserve">
+        <Assets
+          input={["memorySkipDir"]}
+          assets={{ symlinks: "preserve", children: {} }}
+          skipUnused
+        />
+        <impure
+          fun={(ctx) => {
+            resolveAssetToOutFsPath(ctx, ["lib.js"]);
+            resolveAssetToOutFsPath(ctx, ["vendor", "lib.js"]);
+            return "";
+          }}
+        />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "");
+
+  // The published symlink still points to the output of its target.
+  const output = path.join(Deno.cwd(), "gotSkipPreserve");
+  assertEquals(
+    await provider.readLink(path.join(output, "lib.js")),
+    path.join("vendor", "lib.js"),
+  );
+  assertEquals(
+    await provider.readTextFile(path.join(output, "lib.js")),
+    "lib",
+  );
+
+  // No staging directories remain, not even the leftover one.
+  assertEquals(
+    (await provider.readDir(Deno.cwd())).filter((entry) =>
+      entry.name.startsWith(".assets-staging-")
+    ),
+    [],
+  );
+});
+
+Deno.test("late lookups of skipped assets", async () => {
+  const provider = createMemoryProvider();
+  const input = path.join(Deno.cwd(), "memoryLateDir");
+  await provider.mkdir(input, { recursive: true });
+  await provider.writeTextFile(path.join(input, "a.txt"), "a");
+
+  // Looks up the asset only after its output has been skipped.
+  let settledRounds = 0;
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <Dir name="gotLate">
+        <Assets input={["memoryLateDir"]} assets={{}} skipUnused />
+        <impure
+          fun={(ctx) => {
+            if (ctx.mustMakeProgress()) {
+              settledRounds += 1;
+            }
+            if (settledRounds < 2) {
+              return null;
+            }
+            resolveAssetToOutFsPath(ctx, ["a.txt"]);
+            return "";
+          }}
+        />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, null);
+});
+
+Deno.test("inline assets", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <>
+      <Dir name="got11">
+        <Assets input={["testInlineDir"]} assets={{ children: {} }} />
+      </Dir>
+      <InlineAsset asset={["style.css"]} />
+      <InlineAsset asset={["icon.svg"]} />
+    </>,
+  );
+  assertEquals(
+    got,
+    `<style>p { color: red; }\n</style><svg xmlns="http://www.w3.org/2000/svg" width="1" height="1"></svg>\n`,
+  );
+  await assertFs("./got11", "./expected11");
+});
+
+Deno.test("transform cache with identical inputs", async () => {
+  const transformCached: AssetTransform = (ctx, pathInfo) =>
+    transformCopy(ctx, pathInfo);
+  transformCached.cacheId = "cached-1";
+
+  const ctx = new Context();
+  await clearAssetCache(ctx, ["cache12"]);
+
+  for (let i = 0; i < 2; i++) {
+    const ctx = new Context();
+    const got = await ctx.evaluate(
+      <Dir name="got12">
+        <Assets
+          input={["testDuplicatesDir"]}
+          assets={{ transformation: transformCached, children: {} }}
+          cache={["cache12"]}
+        />
+      </Dir>,
+    );
+    assertEquals(got, "");
+    await assertFs("./got12", "./expected12");
+
+    assertMapping(ctx, [
+      [["a", "x.css"], ["got12", "a", "x.css"]],
+      [["b", "y.css"], ["got12", "b", "y.css"]],
+    ]);
+  }
+
+  assertEquals((await inspectAssetCache(ctx, ["cache12"])).length, 2);
+  await clearAssetCache(ctx, ["cache12"]);
+});
+
+Deno.test("memory provider", async () => {
+  const provider = createMemoryProvider();
+  const input = path.join(Deno.cwd(), "memoryInputDir");
+  await provider.mkdir(path.join(input, "nested"), { recursive: true });
+  await provider.writeTextFile(path.join(input, "a.txt"), "a");
+  await provider.writeTextFile(path.join(input, "nested", "b.css"), "b");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <Dir name="gotMemory">
+        <Assets
+          input={["memoryInputDir"]}
+          assets={{
+            children: { nested: { transformation: transformFingerprint } },
+          }}
+        />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "");
+
+  const output = path.join(Deno.cwd(), "gotMemory");
+  assertEquals(
+    await provider.readTextFile(path.join(output, "a.txt")),
+    "a",
+  );
+  const [fingerprinted] = await provider.readDir(path.join(output, "nested"));
+  assertEquals(
+    resolveAssetToOutFsPath(ctx, ["nested", "b.css"]),
+    ["gotMemory", "nested", fingerprinted.name],
+  );
+
+  // Nothing touched the disk.
+  assertEquals(await diskProvider.exists(output), false);
+});
+
+Deno.test("unused unhashed copies", async () => {
+  const provider = createMemoryProvider();
+  const input = path.join(Deno.cwd(), "memoryUnhashedDir");
+  await provider.mkdir(input, { recursive: true });
+  await provider.writeTextFile(path.join(input, "a.css"), "a");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <Dir name="gotUnhashed">
+        <Assets
+          input={["memoryUnhashedDir"]}
+          assets={{
+            transformation: createFingerprintTransform({ keepUnhashed: true }),
+            children: {},
+          }}
+        />
+        <ReportUnusedAssets json />
+      </Dir>
+    </Config>,
+  );
+
+  assertEquals(getUnusedAssets(ctx), [
+    { root: defaultAssetRoot, path: ["a.css"] },
+  ]);
+  const report: { output: string }[] = JSON.parse(got!);
+  assertEquals(
+    report.map((entry) => path.basename(entry.output)),
+    ["a.ca978112.css", "a.css"],
+  );
+});
+
+Deno.test("inline images, escaping, and large assets", async () => {
+  const provider = createMemoryProvider();
+  const input = path.join(Deno.cwd(), "memoryInlineDir");
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+  await provider.mkdir(input, { recursive: true });
+  await provider.writeFile(path.join(input, "pixel.png"), png);
+  await provider.writeTextFile(
+    path.join(input, "script.js"),
+    `const end = "</SCRIPT>";`,
+  );
+  await provider.writeTextFile(path.join(input, "style.css"), "p {}");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <Dir name="gotInline">
+        <Assets input={["memoryInlineDir"]} assets={{ children: {} }} />
+      </Dir>
+      <InlineAsset asset={["pixel.png"]} alt="A pixel" />|
+      <InlineAsset asset={["script.js"]} />|
+      <InlineAsset asset={["style.css"]} maxSize={1} />
+    </Config>,
+  );
+
+  const [image, script, link] = got!.split("|");
+  assertEquals(image.startsWith("<img"), true);
+  assertEquals(image.includes(`alt="A pixel"`), true);
+  assertEquals(
+    image.includes(`src="data:image/png;base64,${encodeBase64(png)}"`),
+    true,
+  );
+  assertEquals(script.includes(`const end = "<\\/SCRIPT>";`), true);
+  assertEquals(script.match(/<\/script/gi)?.length, 1);
+  assertEquals(link.startsWith("<link"), true);
+  assertEquals(link.includes(`rel="stylesheet"`), true);
+});
+
+Deno.test("dry run", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs dryRun />}>
+      <Dir name="gotDryRun">
+        <Assets
+          input={["testInlineDir"]}
+          assets={{ transformation: transformFingerprint, children: {} }}
+        />
+      </Dir>
+      <InlineAsset asset={["style.css"]} />
+    </Config>,
+  );
+  assertEquals(got!.startsWith("<link"), true);
+  assertMapping(ctx, [[["style.css"], ["gotDryRun", "style.css"]]]);
+  assertEquals(await diskProvider.exists("gotDryRun"), false);
+});
@@ -1,3 +1,14 @@
 export * as fs from "https://deno.land/std@0.63.0/fs/mod.ts";
+export * as csv from "https://deno.land/std@0.214.0/csv/mod.ts";
+export * as toml from "https://deno.land/std@0.214.0/toml/mod.ts";
+export * as yaml from "https://deno.land/std@0.214.0/yaml/mod.ts";
 export * from "https://raw.githubusercontent.com/worm-blossom/macromania/main/mod.ts";
-export * from "../macromania_logger/mod.tsx";
\ No newline at end of file
+export * from "../macromania_logger/mod.tsx";
+export * from "../macromania_config/mod.tsx";
+export {
+  basename,
+  dirname,
+  fromFileUrl,
+  resolve,
+  SEPARATOR,
+} from "https://deno.land/std@0.214.0/path/mod.ts";
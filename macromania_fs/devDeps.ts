@@ -0,0 +1,4 @@
+export {
+  assertEquals,
+  assertMatch,
+} from "https://deno.land/std@0.213.0/assert/mod.ts";
@@ -1,17 +1,865 @@
 import { createLogger } from "./deps.ts";
 import {
+  basename,
   Context,
+  createConfigOptions,
+  createSubstate,
+  csv,
+  dirname,
   Expression,
   Expressions,
   expressions,
+  fromFileUrl,
   fs,
+  resolve,
+  SEPARATOR,
   styleFile,
+  toml,
+  yaml,
 } from "./deps.ts";
 
 const l = createLogger("LoggerFs");
 const ConfigMacro = l.ConfigMacro;
 export { ConfigMacro as LoggerFs };
 
+/**
+ * The file system operations that the functions and macros of this package
+ * route through. Implementations signal failure by throwing, just like the
+ * corresponding `Deno` functions (in particular, they throw
+ * `Deno.errors.NotFound` for missing paths); the functions of this package
+ * then log the failure and halt evaluation.
+ */
+export type FsProvider = {
+  chmod: (path: string | URL, mode: number) => Promise<void>;
+  chown: (
+    path: string | URL,
+    uid: number | null,
+    gid: number | null,
+  ) => Promise<void>;
+  copyFile: (from: string | URL, to: string | URL) => Promise<void>;
+  link: (oldpath: string, newpath: string) => Promise<void>;
+  lstat: (path: string | URL) => Promise<FileInfo>;
+  makeTempDir: (options?: Deno.MakeTempOptions) => Promise<string>;
+  makeTempFile: (options?: Deno.MakeTempOptions) => Promise<string>;
+  mkdir: (path: string | URL, options?: Deno.MkdirOptions) => Promise<void>;
+  mkdirSync: (path: string | URL, options?: Deno.MkdirOptions) => void;
+  readDir: (path: string | URL) => Promise<Deno.DirEntry[]>;
+  readFile: (path: string | URL) => Promise<Uint8Array>;
+  readLink: (path: string | URL) => Promise<string>;
+  readTextFile: (path: string | URL) => Promise<string>;
+  realPath: (path: string | URL) => Promise<string>;
+  remove: (path: string | URL, options?: Deno.RemoveOptions) => Promise<void>;
+  rename: (oldpath: string, newpath: string) => Promise<void>;
+  stat: (path: string | URL) => Promise<FileInfo>;
+  symlink: (
+    oldpath: string,
+    newpath: string,
+    options?: Deno.SymlinkOptions,
+  ) => Promise<void>;
+  truncate: (path: string, len?: number) => Promise<void>;
+  utime: (
+    path: string | URL,
+    atime: number | Date,
+    mtime: number | Date,
+  ) => Promise<void>;
+  writeTextFile: (
+    path: string | URL,
+    content: string,
+    options?: Deno.WriteFileOptions,
+  ) => Promise<void>;
+  writeFile: (
+    path: string | URL,
+    data: Uint8Array,
+    options?: Deno.WriteFileOptions,
+  ) => Promise<void>;
+  copy: (src: string, dest: string, options?: fs.CopyOptions) => Promise<void>;
+  emptyDir: (dir: string) => Promise<void>;
+  ensureDir: (path: string) => Promise<void>;
+  ensureFile: (path: string) => Promise<void>;
+  ensureLink: (src: string, dest: string) => Promise<void>;
+  ensureSymlink: (src: string, dest: string) => Promise<void>;
+  /**
+   * Whether there is anything at the given path, without following a symlink
+   * at the path itself.
+   */
+  exists: (path: string | URL) => Promise<boolean>;
+};
+
+/**
+ * The information about a file that an {@linkcode FsProvider} reports.
+ */
+export type FileInfo = Pick<
+  Deno.FileInfo,
+  "isFile" | "isDirectory" | "isSymlink" | "size" | "mtime"
+>;
+
+/**
+ * The default {@linkcode FsProvider}: the real file system.
+ */
+export const diskProvider: FsProvider = {
+  chmod: (path, mode) => Deno.chmod(path, mode),
+  chown: (path, uid, gid) => Deno.chown(path, uid, gid),
+  copyFile: (from, to) => Deno.copyFile(from, to),
+  link: (oldpath, newpath) => Deno.link(oldpath, newpath),
+  lstat: (path) => Deno.lstat(path),
+  makeTempDir: (options) => Deno.makeTempDir(options),
+  makeTempFile: (options) => Deno.makeTempFile(options),
+  mkdir: (path, options) => Deno.mkdir(path, options),
+  mkdirSync: (path, options) => Deno.mkdirSync(path, options),
+  readDir: async (path) => {
+    const entries: Deno.DirEntry[] = [];
+    for await (const entry of Deno.readDir(path)) {
+      entries.push(entry);
+    }
+    return entries;
+  },
+  readFile: (path) => Deno.readFile(path),
+  readLink: (path) => Deno.readLink(path),
+  readTextFile: (path) => Deno.readTextFile(path),
+  realPath: (path) => Deno.realPath(path),
+  remove: (path, options) => Deno.remove(path, options),
+  rename: (oldpath, newpath) => Deno.rename(oldpath, newpath),
+  stat: (path) => Deno.stat(path),
+  symlink: (oldpath, newpath, options) =>
+    Deno.symlink(oldpath, newpath, options),
+  truncate: (path, len) => Deno.truncate(path, len),
+  utime: (path, atime, mtime) => Deno.utime(path, atime, mtime),
+  writeTextFile: (path, content, options) =>
+    Deno.writeTextFile(path, content, options),
+  writeFile: (path, data, options) => Deno.writeFile(path, data, options),
+  copy: (src, dest, options) => fs.copy(src, dest, options),
+  emptyDir: (dir) => fs.emptyDir(dir),
+  ensureDir: (path) => fs.ensureDir(path),
+  ensureFile: (path) => fs.ensureFile(path),
+  ensureLink: (src, dest) => fs.ensureLink(src, dest),
+  ensureSymlink: (src, dest) => fs.ensureSymlink(src, dest),
+  exists: async (path) => {
+    try {
+      await Deno.lstat(path);
+      return true;
+    } catch (_err) {
+      return false;
+    }
+  },
+};
+
+/**
+ * A node of the in-memory file system. The contents of files are boxed, so
+ * that hard links can share them.
+ */
+type MemoryFsNode =
+  | { kind: "file"; contents: { data: Uint8Array } }
+  | { kind: "dir" }
+  | { kind: "symlink"; target: string };
+
+/**
+ * Create an {@linkcode FsProvider} that keeps everything in memory, starting
+ * out with nothing but empty root and temporary directories. Relative paths
+ * are resolved against the cwd of the process, and symlinks are followed in
+ * every component of a path. Permissions, owners, and timestamps are not
+ * tracked.
+ */
+export function createMemoryProvider(): FsProvider {
+  const tmp = "/tmp";
+  const nodes = new Map<string, MemoryFsNode>([
+    ["/", { kind: "dir" }],
+    [tmp, { kind: "dir" }],
+  ]);
+  let tempCounter = 0;
+
+  // Make `path` absolute, with symlinks resolved in all but its last component.
+  function normalize(path: string | URL): string {
+    return resolveParents(
+      resolve(path instanceof URL ? fromFileUrl(path) : path),
+      0,
+    );
+  }
+
+  function notFound(path: string): never {
+    throw new Deno.errors.NotFound(`No such file or directory: ${path}`);
+  }
+
+  function alreadyExists(path: string): never {
+    throw new Deno.errors.AlreadyExists(`File exists: ${path}`);
+  }
+
+  function get(path: string): MemoryFsNode {
+    return nodes.get(path) ?? notFound(path);
+  }
+
+  // Resolve symlinks in all but the last component of an absolute path.
+  function resolveParents(path: string, hops: number): string {
+    if (path === "/") {
+      return path;
+    }
+    return resolve(
+      follow(resolveParents(dirname(path), hops), hops),
+      basename(path),
+    );
+  }
+
+  // Follow symlinks at the end of a path whose parents are resolved already.
+  function follow(path: string, hops = 0): string {
+    const node = nodes.get(path);
+    if (node?.kind === "symlink") {
+      if (hops >= 32) {
+        throw new Error(`Too many levels of symbolic links: ${path}`);
+      }
+      return follow(
+        resolveParents(resolve(dirname(path), node.target), hops + 1),
+        hops + 1,
+      );
+    }
+    return path;
+  }
+
+  function getFile(path: string): { data: Uint8Array } {
+    const node = get(follow(path));
+    if (node.kind !== "file") {
+      throw new Error(`Not a file: ${path}`);
+    }
+    return node.contents;
+  }
+
+  function descendants(path: string): string[] {
+    const prefix = path === "/" ? "/" : `${path}/`;
+    return [...nodes.keys()].filter((p) => p !== path && p.startsWith(prefix));
+  }
+
+  // Ensure that the parent of `path` is a directory.
+  function checkParent(path: string) {
+    const parent = follow(dirname(path));
+    if (get(parent).kind !== "dir") {
+      throw new Error(`Not a directory: ${parent}`);
+    }
+  }
+
+  function mkdirs(path: string) {
+    const node = nodes.get(path);
+    if (node === undefined) {
+      mkdirs(dirname(path));
+      nodes.set(path, { kind: "dir" });
+    } else if (nodes.get(follow(path))?.kind !== "dir") {
+      alreadyExists(path);
+    }
+  }
+
+  // Move or copy `from` and all its descendants to `to`.
+  function transfer(from: string, to: string, keep: boolean) {
+    for (const p of [from, ...descendants(from)]) {
+      const node = nodes.get(p)!;
+      const target = to + p.slice(from.length);
+      nodes.set(
+        target,
+        keep && node.kind === "file"
+          ? {
+            kind: "file",
+            contents: { data: new Uint8Array(node.contents.data) },
+          }
+          : node,
+      );
+      if (!keep) {
+        nodes.delete(p);
+      }
+    }
+  }
+
+  function writeData(
+    path: string,
+    data: Uint8Array,
+    options?: Deno.WriteFileOptions,
+  ) {
+    const resolved = follow(path);
+    const node = nodes.get(resolved);
+    if (node === undefined) {
+      if (options?.create === false) {
+        notFound(path);
+      }
+      checkParent(resolved);
+      nodes.set(resolved, {
+        kind: "file",
+        contents: { data: new Uint8Array(data) },
+      });
+    } else if (node.kind !== "file") {
+      throw new Error(`Is a directory: ${path}`);
+    } else if (options?.createNew) {
+      alreadyExists(path);
+    } else if (options?.append) {
+      const old = node.contents.data;
+      const appended = new Uint8Array(old.length + data.length);
+      appended.set(old);
+      appended.set(data, old.length);
+      node.contents.data = appended;
+    } else {
+      node.contents.data = new Uint8Array(data);
+    }
+  }
+
+  function remove(path: string, options?: Deno.RemoveOptions) {
+    get(path);
+    const below = descendants(path);
+    if (below.length > 0 && !options?.recursive) {
+      throw new Error(`Directory not empty: ${path}`);
+    }
+    for (const p of [path, ...below]) {
+      nodes.delete(p);
+    }
+  }
+
+  function createTemp(
+    options: Deno.MakeTempOptions | undefined,
+    node: MemoryFsNode,
+  ): string {
+    const dir = options?.dir === undefined ? tmp : normalize(options.dir);
+    tempCounter += 1;
+    const path = resolve(
+      dir,
+      `${options?.prefix ?? ""}${tempCounter}${options?.suffix ?? ""}`,
+    );
+    checkParent(path);
+    nodes.set(path, node);
+    return path;
+  }
+
+  function existing(path: string) {
+    get(follow(path));
+  }
+
+  function makeDir(path: string, options?: Deno.MkdirOptions) {
+    if (options?.recursive) {
+      mkdirs(path);
+    } else if (nodes.has(path)) {
+      alreadyExists(path);
+    } else {
+      checkParent(path);
+      nodes.set(path, { kind: "dir" });
+    }
+  }
+
+  function info(node: MemoryFsNode): FileInfo {
+    return {
+      isFile: node.kind === "file",
+      isDirectory: node.kind === "dir",
+      isSymlink: node.kind === "symlink",
+      size: node.kind === "file" ? node.contents.data.length : 0,
+      mtime: null,
+    };
+  }
+
+  // Run a synchronous operation, turning thrown errors into rejections.
+  function settle<T>(operation: () => T): Promise<T> {
+    return new Promise((fulfil) => fulfil(operation()));
+  }
+
+  return {
+    chmod: (path) => settle(() => existing(normalize(path))),
+    chown: (path) => settle(() => existing(normalize(path))),
+    copyFile: (from, to) =>
+      settle(() => {
+        writeData(normalize(to), getFile(normalize(from)).data);
+      }),
+    link: (oldpath, newpath) =>
+      settle(() => {
+        const contents = getFile(normalize(oldpath));
+        const target = normalize(newpath);
+        if (nodes.has(target)) {
+          alreadyExists(target);
+        }
+        checkParent(target);
+        nodes.set(target, { kind: "file", contents });
+      }),
+    makeTempDir: (options) =>
+      settle(() => createTemp(options, { kind: "dir" })),
+    makeTempFile: (options) =>
+      settle(() =>
+        createTemp(options, {
+          kind: "file",
+          contents: { data: new Uint8Array() },
+        })
+      ),
+    lstat: (path) => settle(() => info(get(normalize(path)))),
+    mkdir: (path, options) => settle(() => makeDir(normalize(path), options)),
+    mkdirSync: (path, options) => makeDir(normalize(path), options),
+    readDir: (path) =>
+      settle(() => {
+        const dir = follow(normalize(path));
+        if (get(dir).kind !== "dir") {
+          throw new Error(`Not a directory: ${path}`);
+        }
+        const prefix = dir === "/" ? "/" : `${dir}/`;
+        return descendants(dir)
+          .filter((p) => !p.slice(prefix.length).includes("/"))
+          .map((p) => {
+            const { isFile, isDirectory, isSymlink } = info(nodes.get(p)!);
+            return {
+              name: p.slice(prefix.length),
+              isFile,
+              isDirectory,
+              isSymlink,
+            };
+          });
+      }),
+    readFile: (path) =>
+      settle(() => new Uint8Array(getFile(normalize(path)).data)),
+    readLink: (path) =>
+      settle(() => {
+        const node = get(normalize(path));
+        if (node.kind !== "symlink") {
+          throw new Error(`Not a symlink: ${path}`);
+        }
+        return node.target;
+      }),
+    readTextFile: (path) =>
+      settle(() => {
+        return new TextDecoder().decode(getFile(normalize(path)).data);
+      }),
+    realPath: (path) =>
+      settle(() => {
+        const resolved = follow(normalize(path));
+        get(resolved);
+        return resolved;
+      }),
+    remove: (path, options) => settle(() => remove(normalize(path), options)),
+    rename: (oldpath, newpath) =>
+      settle(() => {
+        const from = normalize(oldpath);
+        const to = normalize(newpath);
+        get(from);
+        checkParent(to);
+        if (nodes.get(to)?.kind === "dir" && descendants(to).length > 0) {
+          throw new Error(`Directory not empty: ${to}`);
+        }
+        if (nodes.has(to)) {
+          remove(to, { recursive: true });
+        }
+        transfer(from, to, false);
+      }),
+    stat: (path) => settle(() => info(get(follow(normalize(path))))),
+    symlink: (oldpath, newpath) =>
+      settle(() => {
+        const p = normalize(newpath);
+        if (nodes.has(p)) {
+          alreadyExists(p);
+        }
+        checkParent(p);
+        nodes.set(p, { kind: "symlink", target: oldpath });
+      }),
+    truncate: (path, len = 0) =>
+      settle(() => {
+        const contents = getFile(normalize(path));
+        const truncated = new Uint8Array(len);
+        truncated.set(contents.data.subarray(0, len));
+        contents.data = truncated;
+      }),
+    utime: (path) => settle(() => existing(normalize(path))),
+    writeTextFile: (path, content, options) =>
+      settle(() => {
+        writeData(normalize(path), new TextEncoder().encode(content), options);
+      }),
+    writeFile: (path, data, options) =>
+      settle(() => {
+        writeData(normalize(path), data, options);
+      }),
+    copy: (src, dest, options) =>
+      settle(() => {
+        const from = follow(normalize(src));
+        const to = normalize(dest);
+        get(from);
+        if (nodes.has(to)) {
+          if (!options?.overwrite) {
+            alreadyExists(to);
+          }
+          remove(to, { recursive: true });
+        }
+        checkParent(to);
+        transfer(from, to, true);
+      }),
+    emptyDir: (dir) =>
+      settle(() => {
+        const p = normalize(dir);
+        if (nodes.has(p)) {
+          if (get(follow(p)).kind !== "dir") {
+            throw new Error(`Not a directory: ${p}`);
+          }
+          for (const below of descendants(follow(p))) {
+            nodes.delete(below);
+          }
+        } else {
+          mkdirs(p);
+        }
+      }),
+    ensureDir: (path) => settle(() => mkdirs(normalize(path))),
+    ensureFile: (path) =>
+      settle(() => {
+        const p = normalize(path);
+        const node = nodes.get(follow(p));
+        if (node === undefined) {
+          mkdirs(dirname(p));
+          nodes.set(p, { kind: "file", contents: { data: new Uint8Array() } });
+        } else if (node.kind !== "file") {
+          throw new Error(`Not a file: ${p}`);
+        }
+      }),
+    ensureLink: (src, dest) =>
+      settle(() => {
+        const contents = getFile(normalize(src));
+        const p = normalize(dest);
+        const node = nodes.get(p);
+        if (node === undefined) {
+          mkdirs(dirname(p));
+          nodes.set(p, { kind: "file", contents });
+        } else if (node.kind !== "file" || node.contents !== contents) {
+          alreadyExists(p);
+        }
+      }),
+    ensureSymlink: (src, dest) =>
+      settle(() => {
+        existing(normalize(resolve(dirname(normalize(dest)), src)));
+        const p = normalize(dest);
+        const node = nodes.get(p);
+        if (node === undefined) {
+          mkdirs(dirname(p));
+          nodes.set(p, { kind: "symlink", target: src });
+        } else if (node.kind !== "symlink" || node.target !== src) {
+          alreadyExists(p);
+        }
+      }),
+    exists: (path) => settle(() => nodes.has(normalize(path))),
+  };
+}
+
+/**
+ * Configuration options for the file system functions and macros.
+ */
+export type FsConfig = {
+  /**
+   * If `true`, no operation modifies the file system. Instead, each operation
+   * is logged at level `"info"` as a plan of what would have been created,
+   * overwritten, or deleted. Operations that only read from the file system
+   * work as usual. Defaults to `false`.
+   */
+  dryRun?: boolean;
+  /**
+   * The {@linkcode FsProvider} that performs all operations. Defaults to
+   * {@linkcode diskProvider}.
+   */
+  provider?: FsProvider;
+};
+
+const [getConfig, ConfigFs] = createConfigOptions<FsConfig, FsConfig>(
+  "ConfigFs",
+  () => ({
+    dryRun: false,
+    provider: diskProvider,
+  }),
+  (oldValue, update) => {
+    const newValue = { ...oldValue };
+    if (update.dryRun !== undefined) {
+      newValue.dryRun = update.dryRun;
+    }
+    if (update.provider !== undefined) {
+      newValue.provider = update.provider;
+    }
+    return newValue;
+  },
+);
+export { ConfigFs };
+
+/**
+ * Get the {@linkcode FsProvider} that is currently configured.
+ */
+function getProvider(ctx: Context): FsProvider {
+  return getConfig(ctx).provider ?? diskProvider;
+}
+
+/**
+ * The modification times (in milliseconds since the epoch) and sizes of a
+ * tracked input and of everything inside it, keyed by absolute path. Paths
+ * that did not exist map to `null`.
+ */
+type InputSnapshot = Map<string, { mtime: number; size: number } | null>;
+
+/**
+ * Maps every registered input to a snapshot taken when it was first
+ * registered, or to `null` if it does not live on disk.
+ */
+const [getInputState, _setInputState] = createSubstate<
+  Map<string, InputSnapshot | null>
+>(
+  () => new Map(),
+);
+
+const [getOutputState, _setOutputState] = createSubstate<Set<string>>(
+  () => new Set(),
+);
+
+/**
+ * Register that the output of the current build depends on the file or
+ * directory at `path` (a directory dependency covers everything inside it).
+ * The reading functions and macros of this package call this automatically;
+ * other packages that read files by other means should call it themselves.
+ */
+export function registerInput(ctx: Context, path: string | URL) {
+  const inputs = getInputState(ctx);
+  const absolute = resolve(path instanceof URL ? fromFileUrl(path) : path);
+  if (!inputs.has(absolute)) {
+    // Remember what the input looked like before the build read it, so that
+    // `watch` can tell whether it changed in the meantime.
+    inputs.set(
+      absolute,
+      getProvider(ctx) === diskProvider ? snapshotInput(absolute) : null,
+    );
+  }
+}
+
+/**
+ * Record the modification times of `path` and of everything inside it.
+ */
+function snapshotInput(
+  path: string,
+  snapshot: InputSnapshot = new Map(),
+): InputSnapshot {
+  let info: Deno.FileInfo;
+  try {
+    info = Deno.statSync(path);
+  } catch {
+    snapshot.set(path, null);
+    return snapshot;
+  }
+
+  snapshot.set(path, { mtime: info.mtime?.getTime() ?? 0, size: info.size });
+  if (info.isDirectory) {
+    try {
+      for (const entry of Deno.readDirSync(path)) {
+        snapshotInput(resolve(path, entry.name), snapshot);
+      }
+    } catch {
+      // The directory vanished after the stat, a later snapshot will differ.
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Whether a fresh snapshot of `path` differs from the given one, i.e., whether
+ * anything in it was modified, created, or deleted since.
+ */
+function inputChanged(path: string, snapshot: InputSnapshot): boolean {
+  const now = snapshotInput(path);
+  if (now.size !== snapshot.size) {
+    return true;
+  }
+  for (const [p, info] of now) {
+    const prior = snapshot.get(p);
+    if (
+      prior === undefined || prior?.mtime !== info?.mtime ||
+      prior?.size !== info?.size
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Internal function: register that the current build wrote to `path`. Reading
+ * such a file does not make it an input.
+ */
+function registerOutput(ctx: Context, path: string | URL) {
+  getOutputState(ctx).add(
+    resolve(path instanceof URL ? fromFileUrl(path) : path),
+  );
+}
+
+/**
+ * Get the absolute paths of all inputs that have been registered with
+ * {@linkcode registerInput} so far, in sorted order. Files that the build
+ * wrote itself (through the functions and macros of this package) are not
+ * inputs, even if they were read. Call this after a build to obtain the full
+ * set of files the build depends on.
+ */
+export function getInputs(ctx: Context): string[] {
+  const outputs = [...getOutputState(ctx)];
+  return [...getInputState(ctx).keys()].filter((input) =>
+    !outputs.some((output) => isWithin(input, output))
+  ).sort();
+}
+
+/**
+ * Options for {@linkcode watch}.
+ */
+export type WatchOptions = {
+  /**
+   * How many milliseconds to wait after a change to a tracked input before
+   * rebuilding, so that a burst of changes triggers only a single rebuild.
+   * Defaults to `100`.
+   */
+  debounce?: number;
+  /**
+   * Stop watching when this signal is aborted.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Run `build`, and run it again whenever any of the inputs it registered (see
+ * {@linkcode getInputs}) changes on disk, until `options.signal` is aborted.
+ * `build` should evaluate the whole document and return the context it used.
+ * Since changes are detected with `Deno.watchFs`, this only works with the
+ * {@linkcode diskProvider}.
+ */
+export async function watch(
+  build: () => Promise<Context>,
+  options: WatchOptions = {},
+): Promise<void> {
+  while (!options.signal?.aborted) {
+    const ctx = await build();
+    const inputs = getInputs(ctx);
+    if (inputs.length === 0 || options.signal?.aborted) {
+      return;
+    }
+
+    const snapshots = new Map<string, InputSnapshot>();
+    for (const input of inputs) {
+      const snapshot = getInputState(ctx).get(input);
+      if (snapshot) {
+        snapshots.set(input, snapshot);
+      }
+    }
+    await waitForInputChange(
+      inputs,
+      snapshots,
+      options.debounce ?? 100,
+      options.signal,
+    );
+  }
+}
+
+/**
+ * Resolve once any of the `inputs` (or anything inside them) has changed and
+ * no further changes happened for `debounce` milliseconds, or once `signal`
+ * is aborted. Resolves right away if any input differs from its snapshot taken
+ * during the build, so that changes made while the build was running are not
+ * missed.
+ */
+async function waitForInputChange(
+  inputs: string[],
+  snapshots: Map<string, InputSnapshot>,
+  debounce: number,
+  signal?: AbortSignal,
+): Promise<void> {
+  // Watch the parent directories, because many editors save files by
+  // replacing them, which would end a watch on the file itself.
+  const roots: string[] = [];
+  for (
+    const dir of [...new Set(inputs.map((input) => dirname(input)))].sort()
+  ) {
+    if (!roots.some((root) => isWithin(dir, root))) {
+      roots.push(dir);
+    }
+  }
+
+  const watcher = Deno.watchFs(roots, { recursive: true });
+  let closed = false;
+  const close = () => {
+    if (!closed) {
+      closed = true;
+      watcher.close();
+    }
+  };
+  signal?.addEventListener("abort", close);
+
+  let timer: number | undefined = undefined;
+  try {
+    // Only check for earlier changes once the watcher is running, so that no
+    // change can fall between the check and the watch.
+    for (const [input, snapshot] of snapshots) {
+      if (inputChanged(input, snapshot)) {
+        return;
+      }
+    }
+
+    for await (const event of watcher) {
+      if (
+        event.paths.some((changed) =>
+          inputs.some((input) => isWithin(changed, input))
+        )
+      ) {
+        clearTimeout(timer);
+        timer = setTimeout(close, debounce);
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", close);
+    close();
+  }
+}
+
+/**
+ * Whether `path` is `ancestor` or lies inside it.
+ */
+function isWithin(path: string, ancestor: string): boolean {
+  return path === ancestor ||
+    path.startsWith(
+      ancestor.endsWith(SEPARATOR) ? ancestor : ancestor + SEPARATOR,
+    );
+}
+
+/**
+ * Returns whether the file system functions and macros are configured for a
+ * dry run, in which they do not modify the file system (see
+ * {@linkcode FsConfig}).
+ */
+export function isDryRun(ctx: Context): boolean {
+  return getConfig(ctx).dryRun ?? false;
+}
+
+/**
+ * If configured for a dry run, log the operation described by `plan` (unless
+ * it returns `null` because the operation would not change anything), and
+ * return `true`. Otherwise, return `false`.
+ */
+async function dryRun(
+  ctx: Context,
+  plan: () => string | null | Promise<string | null>,
+): Promise<boolean> {
+  if (!isDryRun(ctx)) {
+    return false;
+  }
+
+  const planned = await plan();
+  if (planned !== null) {
+    l.info(ctx, `[dry run] ${planned}`);
+  }
+  return true;
+}
+
+/**
+ * Returns whether there is a file, directory, or symlink at the given path.
+ * Symlinks are not followed, so a dangling symlink exists as well.
+ */
+export function exists(ctx: Context, path: string | URL): Promise<boolean> {
+  return getProvider(ctx).exists(path);
+}
+
+async function createOrOverwrite(
+  ctx: Context,
+  path: string | URL,
+): Promise<string> {
+  return (await exists(ctx, path)) ? "overwrite" : "create";
+}
+
+/**
+ * The path reported by temporary file creation in a dry run, where nothing is
+ * actually created.
+ */
+function dryRunTempPath(options?: Deno.MakeTempOptions): string {
+  return `${options?.dir ?? "$TMPDIR"}/${options?.prefix ?? ""}dry-run${
+    options?.suffix ?? ""
+  }`;
+}
+
 /**
  * Changes the permission of a specific file/directory of
  * specified path. Ignores the process's umask.
@@ -19,8 +867,19 @@ export { ConfigMacro as LoggerFs };
  * See https://deno.land/api@v1.40.3?unstable=true&s=Deno.chmod
  */
 export async function chmod(ctx: Context, path: string | URL, mode: number) {
+  if (
+    await dryRun(
+      ctx,
+      () =>
+        `Would chmod ${styleFile(path.toString())} to the permissions 0o${
+          mode.toString(8)
+        }.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.chmod(path, mode);
+    await getProvider(ctx).chmod(path, mode);
     l.trace(
       ctx,
       `Chmod-ed file ${styleFile(path.toString())} to the permissions 0o${
@@ -81,8 +940,21 @@ export async function chown(
   uid?: number,
   gid?: number,
 ) {
+  if (
+    await dryRun(ctx, () => {
+      const ids = [
+        ...(uid != undefined ? [`user id ${uid}`] : []),
+        ...(gid != undefined ? [`group id ${gid}`] : []),
+      ];
+      return `Would chown ${styleFile(path.toString())}${
+        ids.length > 0 ? ` to ${ids.join(" and ")}` : ""
+      }.`;
+    })
+  ) {
+    return;
+  }
   try {
-    await Deno.chown(path, uid ?? null, gid ?? null);
+    await getProvider(ctx).chown(path, uid ?? null, gid ?? null);
     l.trace(ctx, `Chown-ed file ${styleFile(path.toString())}.`);
     l.logGroup(ctx, () => {
       if (uid != undefined) {
@@ -139,8 +1011,21 @@ export async function copyFile(
   from: string | URL,
   to: string | URL,
 ) {
+  registerInput(ctx, from);
+  if (
+    await dryRun(
+      ctx,
+      async () =>
+        `Would ${await createOrOverwrite(ctx, to)} file ${
+          styleFile(to.toString())
+        } as a copy of ${styleFile(from.toString())}.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.copyFile(from, to);
+    await getProvider(ctx).copyFile(from, to);
+    registerOutput(ctx, to);
     l.trace(
       ctx,
       `Copied file from ${styleFile(from.toString())} to ${
@@ -191,8 +1076,20 @@ export async function hardLink(
   oldpath: string,
   newpath: string,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      () =>
+        `Would create ${styleFile(newpath)} as a hardlink to ${
+          styleFile(oldpath)
+        }.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.link(oldpath, newpath);
+    await getProvider(ctx).link(oldpath, newpath);
+    registerOutput(ctx, newpath);
     l.trace(
       ctx,
       `Created ${styleFile(newpath.toString())} as a hardlink to ${
@@ -230,6 +1127,31 @@ export function HardLink(
   );
 }
 
+/**
+ * Resolves to a {@linkcode FileInfo} for the specified `path`. If `path` is a
+ * symlink, information for the symlink will be returned instead of what it
+ * points to.
+ *
+ * https://deno.land/api@v1.40.3?unstable=true&s=Deno.lstat
+ * @returns The information about the file, or `null` if it could not be
+ * obtained.
+ */
+export async function lstat(
+  ctx: Context,
+  path: string | URL,
+): Promise<FileInfo | null> {
+  try {
+    const ret = await getProvider(ctx).lstat(path);
+    l.trace(ctx, `Got file info for ${path.toString()}`);
+    return ret;
+  } catch (err) {
+    l.error(ctx, `Failed to get file info for ${path.toString()}`);
+    l.logGroup(ctx, () => l.error(ctx, err));
+    ctx.halt();
+    return null;
+  }
+}
+
 /**
  * Creates a new temporary directory in the default directory for
  * temporary files, unless `dir` is specified. Other optional options include
@@ -246,8 +1168,17 @@ export async function makeTempDir(
   ctx: Context,
   options?: Deno.MakeTempOptions,
 ): Promise<string> {
+  const planned = dryRunTempPath(options);
+  if (
+    await dryRun(
+      ctx,
+      () => `Would create temporary directory ${styleFile(planned)}.`,
+    )
+  ) {
+    return planned;
+  }
   try {
-    const path = await Deno.makeTempDir(options);
+    const path = await getProvider(ctx).makeTempDir(options);
 
     l.trace(ctx, `Created temporary directory at ${path}`);
     l.logGroup(ctx, () => {
@@ -309,8 +1240,17 @@ export async function makeTempFile(
   ctx: Context,
   options?: Deno.MakeTempOptions,
 ): Promise<string> {
+  const planned = dryRunTempPath(options);
+  if (
+    await dryRun(
+      ctx,
+      () => `Would create temporary file ${styleFile(planned)}.`,
+    )
+  ) {
+    return planned;
+  }
   try {
-    const path = await Deno.makeTempFile(options);
+    const path = await getProvider(ctx).makeTempFile(options);
 
     l.trace(ctx, `Created temporary file at ${path}`);
     l.logGroup(ctx, () => {
@@ -366,8 +1306,16 @@ export async function mkdir(
   path: string | URL,
   options?: Deno.MkdirOptions,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      () => `Would create directory ${styleFile(path.toString())}.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.mkdir(path, options);
+    await getProvider(ctx).mkdir(path, options);
     l.trace(ctx, `Create directory ${path.toString()}`);
     l.logGroup(ctx, () => {
       if (options) {
@@ -405,6 +1353,90 @@ export function Mkdir(
   );
 }
 
+/**
+ * Synchronously creates a new directory with the specified path.
+ *
+ * See https://deno.land/api@v1.40.3?unstable=true&s=Deno.mkdirSync
+ */
+export function mkdirSync(
+  ctx: Context,
+  path: string | URL,
+  options?: Deno.MkdirOptions,
+) {
+  if (isDryRun(ctx)) {
+    l.info(
+      ctx,
+      `[dry run] Would create directory ${styleFile(path.toString())}.`,
+    );
+    return;
+  }
+  try {
+    getProvider(ctx).mkdirSync(path, options);
+    l.trace(ctx, `Create directory ${path.toString()}`);
+    l.logGroup(ctx, () => {
+      if (options) {
+        l.trace(ctx, `Options: ${JSON.stringify(options)}`);
+      }
+    });
+  } catch (err) {
+    l.error(ctx, `Failed to create directory ${path.toString()}`);
+    l.logGroup(ctx, () => {
+      if (options) {
+        l.error(ctx, `Options: ${JSON.stringify(options)}`);
+      }
+      l.error(ctx, err);
+    });
+    ctx.halt();
+  }
+}
+
+/**
+ * Reads the directory given by `path` and returns the entries in the
+ * directory, in no particular order.
+ *
+ * https://deno.land/api@v1.40.3?unstable=true&s=Deno.readDir
+ * @returns The entries of the directory.
+ */
+export async function readDir(
+  ctx: Context,
+  path: string | URL,
+): Promise<Deno.DirEntry[]> {
+  try {
+    const ret = await getProvider(ctx).readDir(path);
+    l.trace(ctx, `Read directory ${path.toString()}`);
+    return ret;
+  } catch (err) {
+    l.error(ctx, `Failed to read directory ${path.toString()}`);
+    l.logGroup(ctx, () => l.error(ctx, err));
+    ctx.halt();
+    return [];
+  }
+}
+
+/**
+ * Reads and returns the entire contents of a file as an array of bytes.
+ * Reading a directory throws an error.
+ *
+ * https://deno.land/api@v1.40.3?unstable=true&s=Deno.readFile
+ * @returns The file contents.
+ */
+export async function readFile(
+  ctx: Context,
+  path: string | URL,
+): Promise<Uint8Array> {
+  registerInput(ctx, path);
+  try {
+    const ret = await getProvider(ctx).readFile(path);
+    l.trace(ctx, `Read file ${path.toString()}`);
+    return ret;
+  } catch (err) {
+    l.error(ctx, `Failed to read file ${path.toString()}`);
+    l.logGroup(ctx, () => l.error(ctx, err));
+    ctx.halt();
+    return new Uint8Array();
+  }
+}
+
 /**
  * Returns the full path destination of the named symbolic link.
  *
@@ -415,8 +1447,9 @@ export async function readLink(
   ctx: Context,
   path: string | URL,
 ): Promise<string> {
+  registerInput(ctx, path);
   try {
-    const ret = await Deno.readLink(path);
+    const ret = await getProvider(ctx).readLink(path);
     l.trace(ctx, `Read link ${path.toString()}: ${ret}`);
     return ret;
   } catch (err) {
@@ -456,8 +1489,9 @@ export async function readTextFile(
   ctx: Context,
   path: string | URL,
 ): Promise<string> {
+  registerInput(ctx, path);
   try {
-    const ret = await Deno.readTextFile(path);
+    const ret = await getProvider(ctx).readTextFile(path);
     l.trace(ctx, `Read text file ${path.toString()}`);
     return ret;
   } catch (err) {
@@ -487,6 +1521,340 @@ export function ReadTextFile(
   );
 }
 
+/**
+ * A way of checking that parsed data has the expected shape: either a type
+ * guard, or a schema object with a `safeParse` method (such as a
+ * [zod](https://zod.dev/) schema).
+ */
+export type DataValidator<T> =
+  | ((data: unknown) => data is T)
+  | {
+    safeParse: (
+      data: unknown,
+    ) => { success: true; data: T } | { success: false; error: unknown };
+  };
+
+/**
+ * A position in a text file. Both line and column start counting at one.
+ */
+type SourceLocation = { line: number; column: number };
+
+/**
+ * Compute the line and column of an offset into a string.
+ */
+function locationOfOffset(text: string, offset: number): SourceLocation {
+  const before = text.slice(0, offset).split("\n");
+  return {
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+  };
+}
+
+/**
+ * The outcome of reading a structured data file: either the (validated) data,
+ * or a failure which has already been reported and has halted evaluation.
+ *
+ * Unlike a `null` sentinel, this is unambiguous for files whose content is
+ * `null` (such as a JSON file containing `null`, or an empty YAML file).
+ */
+export type ReadDataResult<T> = { ok: true; value: T } | { ok: false };
+
+/**
+ * Read a text file, parse it with `parse`, and validate the result. Reports
+ * failures (with the location of parse errors as determined by `locate`) and
+ * halts, returning `{ ok: false }`.
+ */
+async function readData<T>(
+  ctx: Context,
+  path: string | URL,
+  format: string,
+  parse: (text: string) => unknown,
+  locate: (err: unknown, text: string) => SourceLocation | null,
+  validate?: DataValidator<T>,
+): Promise<ReadDataResult<T>> {
+  registerInput(ctx, path);
+  let text: string;
+  try {
+    text = await getProvider(ctx).readTextFile(path);
+  } catch (err) {
+    l.error(ctx, `Failed to read ${format} file ${path.toString()}`);
+    l.logGroup(ctx, () => l.error(ctx, err));
+    ctx.halt();
+    return { ok: false };
+  }
+
+  let data: unknown;
+  try {
+    data = parse(text);
+  } catch (err) {
+    const location = locate(err, text);
+    l.error(
+      ctx,
+      `Failed to parse ${format} file ${
+        styleFile(
+          location === null
+            ? path.toString()
+            : `${path.toString()}:${location.line}:${location.column}`,
+        )
+      }`,
+    );
+    l.logGroup(ctx, () => l.error(ctx, err));
+    ctx.halt();
+    return { ok: false };
+  }
+
+  if (validate !== undefined) {
+    if (typeof validate === "function") {
+      if (!validate(data)) {
+        l.error(
+          ctx,
+          `The ${format} data in ${
+            styleFile(path.toString())
+          } does not have the expected shape.`,
+        );
+        ctx.halt();
+        return { ok: false };
+      }
+    } else {
+      const result = validate.safeParse(data);
+      if (!result.success) {
+        l.error(
+          ctx,
+          `The ${format} data in ${
+            styleFile(path.toString())
+          } does not have the expected shape.`,
+        );
+        l.logGroup(ctx, () => l.error(ctx, result.error));
+        ctx.halt();
+        return { ok: false };
+      }
+      data = result.data;
+    }
+  }
+
+  l.trace(ctx, `Read ${format} file ${path.toString()}`);
+  return { ok: true, value: data as T };
+}
+
+/**
+ * The props shared by all macros that read structured data files.
+ */
+export type ReadDataProps<T> = {
+  /**
+   * The file to read.
+   */
+  path: string | URL;
+  /**
+   * Check that the parsed data has the expected shape. If not, evaluation
+   * halts.
+   */
+  validate?: DataValidator<T>;
+  /**
+   * Turn the data into an expression.
+   */
+  fun: (data: T, ctx: Context) => Expression;
+};
+
+/**
+ * An expression that evaluates to `fun(data)` once `read` has produced the
+ * data.
+ */
+function ReadData<T>(
+  { read, fun }: {
+    read: (ctx: Context) => Promise<ReadDataResult<T>>;
+    fun: (data: T, ctx: Context) => Expression;
+  },
+): Expression {
+  return (
+    <impure
+      fun={async (ctx) => {
+        const result = await read(ctx);
+        return result.ok ? fun(result.value, ctx) : "";
+      }}
+    />
+  );
+}
+
+/**
+ * Reads and parses a JSON file, and optionally validates the parsed data.
+ * Parse errors are reported with their line and column.
+ *
+ * @returns The parsed data as `{ ok: true, value }`, or `{ ok: false }` if
+ * reading, parsing, or validation failed (in which case evaluation halts).
+ */
+export function readJson<T = unknown>(
+  ctx: Context,
+  path: string | URL,
+  validate?: DataValidator<T>,
+): Promise<ReadDataResult<T>> {
+  return readData(ctx, path, "JSON", JSON.parse, locateJsonError, validate);
+}
+
+/**
+ * Reads and parses a JSON file, and evaluates to `fun` applied to the parsed
+ * data. Parse errors are reported with their line and column.
+ */
+export function ReadJson<T = unknown>(
+  { path, validate, fun }: ReadDataProps<T>,
+): Expression {
+  return <ReadData read={(ctx) => readJson(ctx, path, validate)} fun={fun} />;
+}
+
+function locateJsonError(
+  err: unknown,
+  text: string,
+): SourceLocation | null {
+  if (!(err instanceof SyntaxError)) {
+    return null;
+  }
+
+  const position = /position (\d+)/.exec(err.message);
+  if (position !== null) {
+    return locationOfOffset(text, parseInt(position[1]));
+  } else if (err.message.includes("end of JSON input")) {
+    return locationOfOffset(text, text.length);
+  } else {
+    return null;
+  }
+}
+
+/**
+ * Reads and parses a YAML file, and optionally validates the parsed data.
+ * Parse errors are reported with their line and column.
+ *
+ * @returns The parsed data as `{ ok: true, value }`, or `{ ok: false }` if
+ * reading, parsing, or validation failed (in which case evaluation halts).
+ */
+export function readYaml<T = unknown>(
+  ctx: Context,
+  path: string | URL,
+  validate?: DataValidator<T>,
+): Promise<ReadDataResult<T>> {
+  return readData(
+    ctx,
+    path,
+    "YAML",
+    (text) => yaml.parse(text),
+    locateYamlError,
+    validate,
+  );
+}
+
+/**
+ * Reads and parses a YAML file, and evaluates to `fun` applied to the parsed
+ * data. Parse errors are reported with their line and column.
+ */
+export function ReadYaml<T = unknown>(
+  { path, validate, fun }: ReadDataProps<T>,
+): Expression {
+  return <ReadData read={(ctx) => readYaml(ctx, path, validate)} fun={fun} />;
+}
+
+function locateYamlError(err: unknown): SourceLocation | null {
+  // YAML errors carry a zero-based mark.
+  const mark = (err as { mark?: { line?: unknown; column?: unknown } })?.mark;
+  if (
+    mark !== undefined && typeof mark.line === "number" &&
+    typeof mark.column === "number"
+  ) {
+    return { line: mark.line + 1, column: mark.column + 1 };
+  } else {
+    return null;
+  }
+}
+
+/**
+ * Reads and parses a CSV file, and optionally validates the parsed data.
+ * Without `options`, the file parses into an array of rows, each an array of
+ * strings. With `options.skipFirstRow` or `options.columns`, the file parses
+ * into an array of records instead. Parse errors are reported with their line
+ * and column.
+ *
+ * @returns The parsed data as `{ ok: true, value }`, or `{ ok: false }` if
+ * reading, parsing, or validation failed (in which case evaluation halts).
+ */
+export function readCsv<T = unknown>(
+  ctx: Context,
+  path: string | URL,
+  validate?: DataValidator<T>,
+  options?: csv.ParseOptions,
+): Promise<ReadDataResult<T>> {
+  return readData(
+    ctx,
+    path,
+    "CSV",
+    (text) => csv.parse(text, options),
+    locateCsvError,
+    validate,
+  );
+}
+
+/**
+ * Reads and parses a CSV file, and evaluates to `fun` applied to the parsed
+ * data. See {@linkcode readCsv} for the effect of `options`. Parse errors are
+ * reported with their line and column.
+ */
+export function ReadCsv<T = unknown>(
+  { path, validate, options, fun }: ReadDataProps<T> & {
+    options?: csv.ParseOptions;
+  },
+): Expression {
+  return (
+    <ReadData read={(ctx) => readCsv(ctx, path, validate, options)} fun={fun} />
+  );
+}
+
+function locateCsvError(err: unknown): SourceLocation | null {
+  if (err instanceof csv.ParseError) {
+    return { line: err.line, column: err.column ?? 1 };
+  } else {
+    return null;
+  }
+}
+
+/**
+ * Reads and parses a TOML file, and optionally validates the parsed data.
+ * Parse errors are reported with their line and column.
+ *
+ * @returns The parsed data as `{ ok: true, value }`, or `{ ok: false }` if
+ * reading, parsing, or validation failed (in which case evaluation halts).
+ */
+export function readToml<T = unknown>(
+  ctx: Context,
+  path: string | URL,
+  validate?: DataValidator<T>,
+): Promise<ReadDataResult<T>> {
+  return readData(
+    ctx,
+    path,
+    "TOML",
+    (text) => toml.parse(text),
+    locateTomlError,
+    validate,
+  );
+}
+
+/**
+ * Reads and parses a TOML file, and evaluates to `fun` applied to the parsed
+ * data. Parse errors are reported with their line and column.
+ */
+export function ReadToml<T = unknown>(
+  { path, validate, fun }: ReadDataProps<T>,
+): Expression {
+  return <ReadData read={(ctx) => readToml(ctx, path, validate)} fun={fun} />;
+}
+
+function locateTomlError(err: unknown): SourceLocation | null {
+  if (!(err instanceof Error)) {
+    return null;
+  }
+
+  const location = /line (\d+), column (\d+)/.exec(err.message);
+  return location === null
+    ? null
+    : { line: parseInt(location[1]), column: parseInt(location[2]) };
+}
+
 /**
  * Returns the absolute normalized path, with symbolic links
  * resolved.
@@ -499,7 +1867,7 @@ export async function realPath(
   path: string | URL,
 ): Promise<string> {
   try {
-    const ret = await Deno.realPath(path);
+    const ret = await getProvider(ctx).realPath(path);
     l.trace(ctx, `Got real path for ${path.toString()}: ${ret}`);
     return ret;
   } catch (err) {
@@ -540,8 +1908,28 @@ export async function remove(
   path: string | URL,
   options?: Deno.RemoveOptions,
 ) {
+  if (isDryRun(ctx) && !(await exists(ctx, path))) {
+    // Fail just like the actual removal would.
+    l.error(ctx, `[dry run] Failed to remove ${path.toString()}`);
+    l.logGroup(ctx, () => {
+      l.error(ctx, `There is no file or directory at this path.`);
+    });
+    ctx.halt();
+    return;
+  }
+  if (
+    await dryRun(
+      ctx,
+      () =>
+        `Would remove ${styleFile(path.toString())}${
+          options?.recursive ? ", recursively" : ""
+        }.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.remove(path, options);
+    await getProvider(ctx).remove(path, options);
     l.trace(ctx, `Removed ${path.toString()}`);
     l.logGroup(ctx, () => {
       if (options) {
@@ -592,8 +1980,20 @@ export async function rename(
   oldpath: string,
   newpath: string,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      async () =>
+        `Would rename (move) ${styleFile(oldpath)} to ${styleFile(newpath)}${
+          (await exists(ctx, newpath)) ? ", replacing it" : ""
+        }.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.rename(oldpath, newpath);
+    await getProvider(ctx).rename(oldpath, newpath);
+    registerOutput(ctx, newpath);
     l.trace(
       ctx,
       `Renamed (moved) ${styleFile(oldpath.toString())} to ${
@@ -634,6 +2034,30 @@ export function Rename(
   );
 }
 
+/**
+ * Resolves to a {@linkcode FileInfo} for the specified `path`. Will always
+ * follow symlinks.
+ *
+ * https://deno.land/api@v1.40.3?unstable=true&s=Deno.stat
+ * @returns The information about the file, or `null` if it could not be
+ * obtained.
+ */
+export async function stat(
+  ctx: Context,
+  path: string | URL,
+): Promise<FileInfo | null> {
+  try {
+    const ret = await getProvider(ctx).stat(path);
+    l.trace(ctx, `Got file info for ${path.toString()}`);
+    return ret;
+  } catch (err) {
+    l.error(ctx, `Failed to get file info for ${path.toString()}`);
+    l.logGroup(ctx, () => l.error(ctx, err));
+    ctx.halt();
+    return null;
+  }
+}
+
 /**
  * Creates `newpath` as a symbolic link to `oldpath`.
  *
@@ -645,8 +2069,20 @@ export async function symlink(
   newpath: string,
   options?: Deno.SymlinkOptions,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      () =>
+        `Would create ${styleFile(newpath)} as a symlink to ${
+          styleFile(oldpath)
+        }.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.symlink(oldpath, newpath, options);
+    await getProvider(ctx).symlink(oldpath, newpath, options);
+    registerOutput(ctx, newpath);
     l.trace(
       ctx,
       `Created ${styleFile(newpath.toString())} as a symlinklink to ${
@@ -709,8 +2145,20 @@ export async function truncate(
   path: string,
   len?: number,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      () =>
+        `Would truncate ${styleFile(path)} to length ${
+          len === undefined ? 0 : len
+        }.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.truncate(path, len);
+    await getProvider(ctx).truncate(path, len);
+    registerOutput(ctx, path);
     l.trace(
       ctx,
       `Truncated ${path} to length ${len === undefined ? 0 : len}.`,
@@ -758,8 +2206,19 @@ export async function utime(
   atime: number | Date,
   mtime: number | Date,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      () =>
+        `Would change access time and modification time of ${
+          styleFile(path.toString())
+        } to ${atime} and ${mtime} respectively.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.utime(path, atime, mtime);
+    await getProvider(ctx).utime(path, atime, mtime);
     l.trace(
       ctx,
       `Changed access time and modification time of ${path.toString()} to ${atime} and ${mtime} respectively.`,
@@ -811,8 +2270,22 @@ export async function writeTextFile(
   content: string,
   options?: Deno.WriteFileOptions,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      async () =>
+        `Would ${
+          options?.append ? "append to" : await createOrOverwrite(ctx, path)
+        } file ${styleFile(path.toString())} (${
+          new TextEncoder().encode(content).length
+        } bytes).`,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.writeTextFile(path, content, options);
+    await getProvider(ctx).writeTextFile(path, content, options);
+    registerOutput(ctx, path);
     l.trace(ctx, `Wrote file ${path.toString()}`);
     l.logGroup(ctx, () => {
       if (options) {
@@ -857,6 +2330,74 @@ export function WriteTextFile(
   );
 }
 
+/**
+ * Write `data` to the given `path`, by default creating a new file if needed,
+ * else overwriting.
+ *
+ * See https://deno.land/api@v1.40.3?unstable=true&s=Deno.writeFile
+ */
+export async function writeFile(
+  ctx: Context,
+  path: string | URL,
+  data: Uint8Array,
+  options?: Deno.WriteFileOptions,
+) {
+  if (
+    await dryRun(
+      ctx,
+      async () =>
+        `Would ${
+          options?.append ? "append to" : await createOrOverwrite(ctx, path)
+        } file ${styleFile(path.toString())} (${data.length} bytes).`,
+    )
+  ) {
+    return;
+  }
+  try {
+    await getProvider(ctx).writeFile(path, data, options);
+    registerOutput(ctx, path);
+    l.trace(ctx, `Wrote file ${path.toString()}`);
+    l.logGroup(ctx, () => {
+      if (options) {
+        l.trace(ctx, `Options: ${JSON.stringify(options)}`);
+      }
+    });
+  } catch (err) {
+    l.error(ctx, `Failed to write file ${path.toString()}`);
+    l.logGroup(ctx, () => {
+      if (options) {
+        l.error(ctx, `Options: ${JSON.stringify(options)}`);
+      }
+      l.error(ctx, err);
+    });
+    ctx.halt();
+  }
+}
+
+/**
+ * Write `data` to the given `path`, by default creating a new file if needed,
+ * else overwriting.
+ *
+ * See https://deno.land/api@v1.40.3?unstable=true&s=Deno.writeFile
+ * @returns The empty string.
+ */
+export function WriteFile(
+  { path, data, options }: {
+    path: string | URL;
+    data: Uint8Array;
+    options?: Deno.WriteFileOptions;
+  },
+): Expression {
+  return (
+    <impure
+      fun={async (ctx) => {
+        await writeFile(ctx, path, data, options);
+        return "";
+      }}
+    />
+  );
+}
+
 /**
  * Copies a file or directory. The directory can have contents. Like `cp -r`.
  *
@@ -868,8 +2409,21 @@ export async function copy(
   dest: string,
   options?: fs.CopyOptions,
 ) {
+  registerInput(ctx, src);
+  if (
+    await dryRun(
+      ctx,
+      async () =>
+        `Would ${await createOrOverwrite(ctx, dest)} ${
+          styleFile(dest)
+        } as a copy of ${styleFile(src)}.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await fs.copy(src, dest, options);
+    await getProvider(ctx).copy(src, dest, options);
+    registerOutput(ctx, dest);
     l.trace(
       ctx,
       `Copied ${styleFile(src.toString())} to ${styleFile(dest.toString())}`,
@@ -930,8 +2484,19 @@ export async function emptyDir(
   ctx: Context,
   dir: string,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      async () =>
+        (await exists(ctx, dir))
+          ? `Would delete all contents of directory ${styleFile(dir)}.`
+          : `Would create empty directory ${styleFile(dir)}.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await fs.emptyDir(dir);
+    await getProvider(ctx).emptyDir(dir);
     l.trace(
       ctx,
       `Ensured an empty directory at ${styleFile(dir)}`,
@@ -979,8 +2544,19 @@ export async function ensureDir(
   ctx: Context,
   path: string,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      async () =>
+        (await exists(ctx, path))
+          ? null
+          : `Would create directory ${styleFile(path)}.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await fs.ensureDir(path);
+    await getProvider(ctx).ensureDir(path);
     l.trace(
       ctx,
       `Ensured that a directory exists at ${styleFile(path)}`,
@@ -1028,8 +2604,20 @@ export async function ensureFile(
   ctx: Context,
   path: string,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      async () =>
+        (await exists(ctx, path))
+          ? null
+          : `Would create file ${styleFile(path)}.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await fs.ensureFile(path);
+    await getProvider(ctx).ensureFile(path);
+    registerOutput(ctx, path);
     l.trace(
       ctx,
       `Ensured that a file exists at ${styleFile(path)}`,
@@ -1078,8 +2666,20 @@ export async function ensureLink(
   src: string,
   dest: string,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      () =>
+        `Would ensure that a link exists at ${styleFile(dest)} to ${
+          styleFile(src)
+        }.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await fs.ensureLink(src, dest);
+    await getProvider(ctx).ensureLink(src, dest);
+    registerOutput(ctx, dest);
     l.trace(
       ctx,
       `Ensured that a link exists at ${styleFile(dest)} to ${styleFile(src)}`,
@@ -1130,8 +2730,20 @@ export async function ensureSymlink(
   src: string,
   dest: string,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      () =>
+        `Would ensure that a symlink exists at ${styleFile(dest)} to ${
+          styleFile(src)
+        }.`,
+    )
+  ) {
+    return;
+  }
   try {
-    await fs.ensureSymlink(src, dest);
+    await getProvider(ctx).ensureSymlink(src, dest);
+    registerOutput(ctx, dest);
     l.trace(
       ctx,
       `Ensured that a symlink exists at ${styleFile(dest)} to ${
@@ -1180,8 +2792,19 @@ export async function ensureNot(
   ctx: Context,
   path: string,
 ) {
+  if (
+    await dryRun(
+      ctx,
+      async () =>
+        (await exists(ctx, path))
+          ? `Would delete ${styleFile(path)}, recursively.`
+          : null,
+    )
+  ) {
+    return;
+  }
   try {
-    await Deno.remove(path, { recursive: true });
+    await getProvider(ctx).remove(path, { recursive: true });
     l.trace(
       ctx,
       `Ensured that there is no file (or directory) at ${styleFile(path)}`,
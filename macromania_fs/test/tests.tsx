@@ -0,0 +1,498 @@
+import { Config, ConfigLoggers, Context, LoggingTarget } from "../deps.ts";
+import { assertEquals, assertMatch } from "../devDeps.ts";
+import {
+  ConfigFs,
+  copy,
+  createMemoryProvider,
+  emptyDir,
+  exists,
+  FsProvider,
+  getInputs,
+  mkdir,
+  readCsv,
+  ReadJson,
+  readJson,
+  readTextFile,
+  readToml,
+  readYaml,
+  registerInput,
+  remove,
+  watch,
+  writeTextFile,
+} from "../mod.tsx";
+
+function newLoggingBackend(): [LoggingTarget, () => string] {
+  let str = "";
+
+  return [
+    {
+      // deno-lint-ignore no-explicit-any
+      log: (...data: any) => str = `${str};${data}`,
+    },
+    () => str,
+  ];
+}
+
+Deno.test("dry run", async () => {
+  const dir = await Deno.makeTempDir();
+  await Deno.writeTextFile(`${dir}/existing.txt`, "old");
+
+  const [loggingBackend, getLoggedData] = newLoggingBackend();
+  const ctx = new Context(loggingBackend);
+  try {
+    const got = await ctx.evaluate(
+      <Config options={<ConfigLoggers defaultLevel="info" />}>
+        <Config options={<ConfigFs dryRun />}>
+          <impure
+            fun={async (ctx) => {
+              await mkdir(ctx, `${dir}/new`);
+              await writeTextFile(ctx, `${dir}/new/a.txt`, "a");
+              await writeTextFile(ctx, `${dir}/existing.txt`, "new");
+              await remove(ctx, `${dir}/existing.txt`);
+              await emptyDir(ctx, dir);
+
+              // Reading works as usual.
+              assertEquals(
+                await readTextFile(ctx, `${dir}/existing.txt`),
+                "old",
+              );
+              return "";
+            }}
+          />
+        </Config>
+      </Config>,
+    );
+    assertEquals(got, "");
+
+    // Nothing touched the disk.
+    assertEquals(
+      [...Deno.readDirSync(dir)].map((entry) => entry.name),
+      ["existing.txt"],
+    );
+    assertEquals(await Deno.readTextFile(`${dir}/existing.txt`), "old");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+
+  // But everything was planned.
+  const logged = getLoggedData();
+  assertMatch(logged, /\[dry run\] Would create directory/);
+  assertMatch(logged, /\[dry run\] Would create file/);
+  assertMatch(logged, /\[dry run\] Would overwrite file/);
+  assertMatch(logged, /\[dry run\] Would remove/);
+  assertMatch(logged, /\[dry run\] Would delete all contents of directory/);
+});
+
+Deno.test("dry run removal of a missing path", async () => {
+  const dir = await Deno.makeTempDir();
+
+  const [loggingBackend, getLoggedData] = newLoggingBackend();
+  const ctx = new Context(loggingBackend);
+  try {
+    const got = await ctx.evaluate(
+      <Config options={<ConfigFs dryRun />}>
+        <impure
+          fun={async (ctx) => {
+            await remove(ctx, `${dir}/missing.txt`);
+            return "";
+          }}
+        />
+      </Config>,
+    );
+    assertEquals(got, null);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+
+  assertMatch(getLoggedData(), /\[dry run\] Failed to remove/);
+});
+
+async function dataProvider(
+  files: Record<string, string>,
+): Promise<FsProvider> {
+  const provider = createMemoryProvider();
+  await provider.mkdir("/data", { recursive: true });
+  for (const [name, contents] of Object.entries(files)) {
+    await provider.writeTextFile(`/data/${name}`, contents);
+  }
+  return provider;
+}
+
+Deno.test("read data files", async () => {
+  const provider = await dataProvider({
+    "a.json": `{ "name": "Alice", "tags": [1, 2] }`,
+    "null.json": "null",
+    "a.yaml": "name: Alice\ntags:\n  - 1\n  - 2\n",
+    "a.csv": "name,age\nAlice,30\nBob,40\n",
+    "a.toml": `name = "Alice"\n\n[tags]\nfirst = 1\n`,
+  });
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <impure
+        fun={async (ctx) => {
+          assertEquals(await readJson(ctx, "/data/a.json"), {
+            ok: true,
+            value: { name: "Alice", tags: [1, 2] },
+          });
+          assertEquals(await readJson(ctx, "/data/null.json"), {
+            ok: true,
+            value: null,
+          });
+          assertEquals(await readYaml(ctx, "/data/a.yaml"), {
+            ok: true,
+            value: { name: "Alice", tags: [1, 2] },
+          });
+          assertEquals(await readCsv(ctx, "/data/a.csv"), {
+            ok: true,
+            value: [["name", "age"], ["Alice", "30"], ["Bob", "40"]],
+          });
+          assertEquals(
+            await readCsv(ctx, "/data/a.csv", undefined, {
+              skipFirstRow: true,
+            }),
+            {
+              ok: true,
+              value: [{ name: "Alice", age: "30" }, { name: "Bob", age: "40" }],
+            },
+          );
+          assertEquals(await readToml(ctx, "/data/a.toml"), {
+            ok: true,
+            value: { name: "Alice", tags: { first: 1 } },
+          });
+          return "";
+        }}
+      />
+      <ReadJson
+        path="/data/a.json"
+        fun={(data) => (data as { name: string }).name}
+      />
+    </Config>,
+  );
+  assertEquals(got, "Alice");
+});
+
+Deno.test("validate data files", async () => {
+  const provider = await dataProvider({ "a.json": `{ "name": "Alice" }` });
+  const isNamed = (data: unknown): data is { name: string } =>
+    typeof (data as { name?: unknown })?.name === "string";
+  const isNumber = (data: unknown): data is number => typeof data === "number";
+  const upperCaseName = {
+    safeParse: (data: unknown) =>
+      isNamed(data)
+        ? { success: true as const, data: data.name.toUpperCase() }
+        : { success: false as const, error: "no name" },
+  };
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <impure
+        fun={async (ctx) => {
+          assertEquals(await readJson(ctx, "/data/a.json", isNamed), {
+            ok: true,
+            value: { name: "Alice" },
+          });
+          assertEquals(await readJson(ctx, "/data/a.json", upperCaseName), {
+            ok: true,
+            value: "ALICE",
+          });
+          assertEquals(await readJson(ctx, "/data/a.json", isNumber), {
+            ok: false,
+          });
+          return "";
+        }}
+      />
+    </Config>,
+  );
+  assertEquals(got, null);
+});
+
+Deno.test("data file errors", async () => {
+  const provider = await dataProvider({
+    "bad.json": `{\n  "a": 1,\n}`,
+    "bad.yaml": "a: 1\n- b\n",
+    "bad.csv": `a,b\nc,d"e\n`,
+    "bad.toml": "a = ",
+  });
+
+  const [loggingBackend, getLoggedData] = newLoggingBackend();
+  const ctx = new Context(loggingBackend);
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <impure
+        fun={async (ctx) => {
+          assertEquals(await readJson(ctx, "/data/missing.json"), {
+            ok: false,
+          });
+          assertEquals(await readJson(ctx, "/data/bad.json"), { ok: false });
+          assertEquals(await readYaml(ctx, "/data/bad.yaml"), { ok: false });
+          assertEquals(await readCsv(ctx, "/data/bad.csv"), { ok: false });
+          assertEquals(await readToml(ctx, "/data/bad.toml"), { ok: false });
+          return "";
+        }}
+      />
+    </Config>,
+  );
+  assertEquals(got, null);
+
+  const logged = getLoggedData();
+  assertMatch(logged, /missing\.json/);
+  assertMatch(logged, /bad\.json:3:1/);
+  assertMatch(logged, /bad\.yaml:2:\d+/);
+  assertMatch(logged, /bad\.csv:2:\d+/);
+  assertMatch(logged, /bad\.toml:1:\d+/);
+});
+
+Deno.test("input tracking", async () => {
+  const provider = await dataProvider({ "a.txt": "a" });
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs provider={provider} />}>
+      <impure
+        fun={async (ctx) => {
+          registerInput(ctx, "/data/manual");
+          await readTextFile(ctx, "/data/a.txt");
+
+          // Files the build wrote itself are not inputs.
+          await provider.mkdir("/out");
+          await writeTextFile(ctx, "/out/b.txt", "b");
+          await readTextFile(ctx, "/out/b.txt");
+
+          // Neither is anything inside a directory the build wrote.
+          await copy(ctx, "/data", "/copied");
+          await readTextFile(ctx, "/copied/a.txt");
+          return "";
+        }}
+      />
+    </Config>,
+  );
+  assertEquals(got, "");
+  assertEquals(getInputs(ctx), ["/data", "/data/a.txt", "/data/manual"]);
+});
+
+Deno.test("watch rebuilds after changes", async () => {
+  const dir = await Deno.makeTempDir();
+  const input = `${dir}/input.txt`;
+  await Deno.writeTextFile(input, "original");
+
+  const controller = new AbortController();
+  // Fail rather than hang if the change goes unnoticed.
+  const timeout = setTimeout(() => controller.abort(), 5000);
+  let edit: number | undefined = undefined;
+  const seen: string[] = [];
+
+  try {
+    await watch(async () => {
+      const ctx = new Context();
+      await ctx.evaluate(
+        <impure
+          fun={async (ctx) => {
+            seen.push(await readTextFile(ctx, input));
+            if (seen.length === 1) {
+              // Edit the input once the watcher is running.
+              edit = setTimeout(() => Deno.writeTextFile(input, "edited"), 200);
+            } else {
+              controller.abort();
+            }
+            return "";
+          }}
+        />,
+      );
+      return ctx;
+    }, { signal: controller.signal, debounce: 10 });
+  } finally {
+    clearTimeout(timeout);
+    clearTimeout(edit);
+    await Deno.remove(dir, { recursive: true });
+  }
+
+  assertEquals(seen, ["original", "edited"]);
+});
+
+Deno.test("watch rebuilds after changes during a build", async () => {
+  const dir = await Deno.makeTempDir();
+  const input = `${dir}/input.txt`;
+  await Deno.writeTextFile(input, "original");
+
+  const controller = new AbortController();
+  // Fail rather than hang if the change goes unnoticed.
+  const timeout = setTimeout(() => controller.abort(), 5000);
+  const seen: string[] = [];
+
+  try {
+    await watch(async () => {
+      const ctx = new Context();
+      await ctx.evaluate(
+        <impure
+          fun={async (ctx) => {
+            seen.push(await readTextFile(ctx, input));
+            if (seen.length === 1) {
+              await Deno.writeTextFile(input, "edited");
+            } else {
+              controller.abort();
+            }
+            return "";
+          }}
+        />,
+      );
+      return ctx;
+    }, { signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+    await Deno.remove(dir, { recursive: true });
+  }
+
+  assertEquals(seen, ["original", "edited"]);
+});
+
+Deno.test("watch rebuilds after deletions during a build", async () => {
+  const dir = await Deno.makeTempDir();
+  const input = `${dir}/input.txt`;
+  await Deno.writeTextFile(input, "original");
+
+  const controller = new AbortController();
+  // Fail rather than hang if the deletion goes unnoticed.
+  const timeout = setTimeout(() => controller.abort(), 5000);
+  const seen: boolean[] = [];
+
+  try {
+    await watch(async () => {
+      const ctx = new Context();
+      await ctx.evaluate(
+        <impure
+          fun={async (ctx) => {
+            registerInput(ctx, input);
+            seen.push(await exists(ctx, input));
+            if (seen.length === 1) {
+              await Deno.remove(input);
+            } else {
+              controller.abort();
+            }
+            return "";
+          }}
+        />,
+      );
+      return ctx;
+    }, { signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+    await Deno.remove(dir, { recursive: true });
+  }
+
+  assertEquals(seen, [true, false]);
+});
+
+Deno.test("watch ignores unchanged inputs from the future", async () => {
+  const dir = await Deno.makeTempDir();
+  const input = `${dir}/input.txt`;
+  await Deno.writeTextFile(input, "original");
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  await Deno.utime(input, tomorrow, tomorrow);
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 500);
+  let builds = 0;
+
+  try {
+    await watch(async () => {
+      builds += 1;
+      const ctx = new Context();
+      await ctx.evaluate(
+        <impure
+          fun={async (ctx) => {
+            await readTextFile(ctx, input);
+            return "";
+          }}
+        />,
+      );
+      return ctx;
+    }, { signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+    await Deno.remove(dir, { recursive: true });
+  }
+
+  assertEquals(builds, 1);
+});
+
+Deno.test("memory provider renames and copies", async () => {
+  const provider = createMemoryProvider();
+  await provider.mkdir("/a/b", { recursive: true });
+  await provider.writeTextFile("/a/b/c.txt", "c");
+
+  await provider.copy("/a", "/copy");
+  await provider.rename("/a", "/moved");
+  assertEquals(await provider.exists("/a"), false);
+  assertEquals(await provider.readTextFile("/moved/b/c.txt"), "c");
+
+  // Copies do not share contents with the original.
+  await provider.writeTextFile("/copy/b/c.txt", "changed");
+  assertEquals(await provider.readTextFile("/moved/b/c.txt"), "c");
+
+  await provider.copyFile("/moved/b/c.txt", "/d.txt");
+  assertEquals(await provider.readTextFile("/d.txt"), "c");
+});
+
+Deno.test("memory provider empties directories", async () => {
+  const provider = createMemoryProvider();
+  await provider.mkdir("/a/b", { recursive: true });
+  await provider.writeTextFile("/a/b/c.txt", "c");
+
+  await provider.emptyDir("/a");
+  assertEquals(await provider.readDir("/a"), []);
+
+  // Missing directories get created.
+  await provider.emptyDir("/new/dir");
+  assertEquals((await provider.stat("/new/dir")).isDirectory, true);
+});
+
+Deno.test("memory provider links", async () => {
+  const provider = createMemoryProvider();
+  await provider.mkdir("/real/sub", { recursive: true });
+  await provider.writeTextFile("/real/sub/a.txt", "a");
+
+  // Hard links share their contents.
+  await provider.link("/real/sub/a.txt", "/hard.txt");
+  await provider.writeTextFile("/hard.txt", "changed");
+  assertEquals(await provider.readTextFile("/real/sub/a.txt"), "changed");
+
+  // Symlinks are followed in every component of a path.
+  await provider.symlink("real", "/dir");
+  await provider.symlink("sub/a.txt", "/real/file");
+  assertEquals(await provider.readTextFile("/dir/sub/a.txt"), "changed");
+  assertEquals(await provider.readTextFile("/dir/file"), "changed");
+  assertEquals(await provider.realPath("/dir/file"), "/real/sub/a.txt");
+  assertEquals(await provider.readLink("/dir/file"), "sub/a.txt");
+  assertEquals((await provider.lstat("/dir/file")).isSymlink, true);
+
+  await provider.writeTextFile("/dir/sub/b.txt", "b");
+  assertEquals(await provider.readTextFile("/real/sub/b.txt"), "b");
+  assertEquals(
+    (await provider.readDir("/dir/sub")).map((entry) => entry.name),
+    ["a.txt", "b.txt"],
+  );
+
+  // Removing a symlink leaves its target alone.
+  await provider.remove("/dir");
+  assertEquals(await provider.exists("/dir"), false);
+  assertEquals(await provider.exists("/real/sub/a.txt"), true);
+});
+
+Deno.test("memory provider temporary files", async () => {
+  const provider = createMemoryProvider();
+
+  const dir = await provider.makeTempDir({ prefix: "pre-" });
+  assertMatch(dir, /^\/tmp\/pre-/);
+  assertEquals((await provider.stat(dir)).isDirectory, true);
+
+  const file = await provider.makeTempFile({ dir, suffix: ".txt" });
+  assertMatch(file, /\.txt$/);
+  assertEquals(await provider.readTextFile(file), "");
+  assertEquals(
+    (await provider.readDir(dir)).map((entry) => `${dir}/${entry.name}`),
+    [file],
+  );
+});
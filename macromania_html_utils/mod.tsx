@@ -12,11 +12,13 @@ import { createSubstate } from "./deps.ts";
 import {
   A,
   absoluteOutFsPath,
+  AssetPath,
   Colors,
   Context,
   createLogger,
   Expression,
   Expressions,
+  normalizeAssetPath,
   resolveAssetToOutFsPath,
   ScriptProps,
   styleAssetPath,
@@ -30,7 +32,7 @@ export { ConfigMacro as LoggerHtmlUtils };
 
 type PerDependencyInformation = {
   // As expected by `resolveAssetToOutFsPath`.
-  path: string[];
+  path: AssetPath;
   // Map a resolve path string to a tag to put into the `<head>`.
   render: (path: string) => Expression;
   // The macro that added this dependency.
@@ -41,7 +43,8 @@ type PerDependencyInformation = {
 
 type HtmlUtilsState = {
   // `null` when outside any `<Html5>` macro.
-  // Otherwise maps `Json.stringify(path)` to the `PerDependencyInformation`.
+  // Otherwise maps `Json.stringify(normalizeAssetPath(path))` to the
+  // `PerDependencyInformation`.
   dependencies: Map<string, PerDependencyInformation> | null;
   // Dependencies that were fully processed (and hence can be deleted from the
   // `dependencies` array but should not be added again).
@@ -65,12 +68,12 @@ const [getState, setState] = createSubstate<HtmlUtilsState>(() => ({
  */
 export function addHtmlDependency(
   ctx: Context,
-  dep: string[],
+  dep: AssetPath,
   render: (path: string) => Expression,
   debugMessage?: string,
 ) {
   const state = getState(ctx);
-  const asValue = JSON.stringify(dep);
+  const asValue = JSON.stringify(normalizeAssetPath(dep));
 
   if (state.dependencies === null) {
     l.warn(
@@ -104,7 +107,7 @@ export type StylesheetDependencyInfo = {
   /**
    * The dependency path, as expected by [`resolveAssetToOutFsPath`](https://github.com/worm-blossom/macromania_assets).
    */
-  dep: string[];
+  dep: AssetPath;
   /**
    * Props for the `<Link>` macro that is used to add the stylesheet.
    */
@@ -153,7 +156,7 @@ export type ScriptDependencyInfo = {
   /**
    * The dependency path, as expected by [`resolveAssetToOutFsPath`](https://github.com/worm-blossom/macromania_assets).
    */
-  dep: string[];
+  dep: AssetPath;
   /**
    * Props for the `<Script>` macro that is used to add the script.
    */
@@ -289,7 +292,8 @@ export function Html5(
 
             if (resolved === null) {
               if (ctx.mustMakeProgress()) {
-                const realDir = getAssetDirPhysicalPath(ctx);
+                const { root, path } = normalizeAssetPath(info.path);
+                const realDir = getAssetDirPhysicalPath(ctx, root);
                 l.warn(ctx, `Failed to resolve an html-utils dependency:`);
                 l.logGroup(ctx, () => {
                   l.warn(ctx, `Dependency: ${styleAssetPath(info.path)}`);
@@ -303,7 +307,7 @@ export function Html5(
                     l.warn(ctx, info.debugMessage);
                   }
                   l.warn(ctx, `The asset directory is located at ${styleFile(realDir)} and assets are looked up relative to there.`);
-                  l.warn(ctx, `Your dependency was expected at ${styleFile(posixPath.join(realDir, ...info.path))}`);
+                  l.warn(ctx, `Your dependency was expected at ${styleFile(posixPath.join(realDir, ...path))}`);
                   l.warn(ctx, `If that file actually exists yet this errors, you probably need to modify ${Colors.yellow("assets")} prop of the ${Colors.yellow("Assets")} macro. Explaining that is out of scope for this warning, you'll need to look up how that one works elsewhere <3.`);
                   l.at(ctx);
                 });
@@ -1,5 +1,6 @@
 export * from "https://raw.githubusercontent.com/worm-blossom/macromania/main/mod.ts";
 export * from "../macromania_logger/mod.tsx";
+export * from "../macromania_config/mod.tsx";
 export * from "../macromania_fs/mod.tsx";
 export * as Colors from "https://deno.land/std@0.204.0/fmt/colors.ts";
-export { join } from "https://deno.land/std@0.214.0/path/mod.ts";
\ No newline at end of file
+export { dirname, globToRegExp, join, relative, resolve } from "https://deno.land/std@0.214.0/path/mod.ts";
\ No newline at end of file
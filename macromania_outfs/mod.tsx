@@ -1,15 +1,42 @@
 import {
+  Config,
   Context,
+  createConfigOptions,
   createLogger,
   createSubstate,
   DebuggingInformation,
   Expression,
   Expressions,
   expressions,
+  Logger,
   styleDebuggingInformation,
+  styleFile,
+} from "./deps.ts";
+import {
+  copy,
+  emptyDir,
+  ensureDir,
+  ensureNot,
+  exists,
+  isDryRun,
+  makeTempDir,
+  mkdirSync,
+  readDir,
+  readTextFile,
+  rename,
+  stat,
+  symlink,
+  writeFile,
+  writeTextFile,
+} from "./deps.ts";
+import {
+  Colors,
+  dirname,
+  globToRegExp,
+  join,
+  relative,
+  resolve,
 } from "./deps.ts";
-import { EmptyDir, EnsureDir, EnsureNot, WriteTextFile } from "./deps.ts";
-import { Colors, join } from "./deps.ts";
 
 const l = createLogger("LoggerOutFs");
 const ConfigMacro = l.ConfigMacro;
@@ -17,8 +44,8 @@ export { ConfigMacro as LoggerOutFs };
 
 /**
  * The outfs macros an in-memory hierarchy of paths, the *OutFs*.
- * Each Node in the OutFs is a directory, or a leaf file (we do not store the
- * contents in memory).
+ * Each Node in the OutFs is a directory, a leaf file (we do not store the
+ * contents in memory), or an alias of another node.
  * For each node, we track the macro that created it for debugging purposes.
  */
 type OutFsNode = {
@@ -28,24 +55,61 @@ type OutFsNode = {
 
 type OutFsNode_ =
   | OutFile
-  | OutDir;
+  | OutDir
+  | OutAlias;
 
 /**
- * We store no data with files in the OutFs, we merrely track their existence.
+ * We do not store the contents of files in the OutFs, but once a file has been
+ * written, we remember its size and content hash.
+ *
+ * Files in `"append"` mode additionally collect the fragments contributed by
+ * the individual `File` macros, until they are written once evaluation has
+ * settled. A fragment is `null` while its contents are still being evaluated.
  */
-type OutFile = null;
+type OutFile = {
+  written: WrittenFile | null;
+  fragments: (string | null)[] | null;
+};
 function isOutFile(n: OutFsNode_): n is OutFile {
-  return n === null;
+  return !(n instanceof Map) && "written" in n;
 }
 
+type WrittenFile = {
+  /**
+   * Size of the file contents in bytes.
+   */
+  size: number;
+  /**
+   * Hex-encoded SHA-256 hash of the file contents.
+   */
+  hash: string;
+};
+
 /**
  * A directory is a collection of OutFsNodes, each with a name.
  */
 type OutDir = Map<string, OutFsNode>;
 function isOutDir(n: OutFsNode_): n is OutDir {
-  return n !== null;
+  return n instanceof Map;
+}
+
+/**
+ * An alias points to another node of the OutFs, given by the components of an
+ * absolute path. Path resolution follows aliases.
+ */
+type OutAlias = {
+  target: string[];
+};
+function isOutAlias(n: OutFsNode_): n is OutAlias {
+  return !(n instanceof Map) && "target" in n;
 }
 
+/**
+ * Aliases are followed at most this many times while resolving a single path,
+ * which guards against alias cycles.
+ */
+const maxAliasHops = 32;
+
 /**
  * The macros further maintain a notion of a cwd in the OutFs, and track
  * the name of the currently evaluated `File`, if any.
@@ -163,7 +227,7 @@ export function resolveRelativePath(
   while (relativity > 0) {
     if (currentPath.length > 0) {
       relativity -= 1;
-      currentPath = currentPath.slice(1);
+      currentPath = currentPath.slice(0, -1);
     } else {
       const dotdot = styleOutFsPath({ relativity: 1, components: [] });
       logResolveFailure(ctx, path, absoluteOutFsPath(startPath));
@@ -181,6 +245,7 @@ export function resolveRelativePath(
         l.error(ctx, `${styleOutFsPath(path)}`);
       });
       ctx.halt();
+      break;
     }
   }
 
@@ -198,9 +263,14 @@ type OutFS = {
   /**
    * The (platform-dependent) path to where the roor PretendDir is "mounted" in
    * the real file system.
-   * Set to the cwd when this file gets loaded, and never changed again.
+   * Set to the cwd when this file gets loaded, and changed only for subtrees
+   * of the evaluation, by the `Mount` and `AtomicBuild` macros.
    */
   mount: string;
+  /**
+   * Bookkeeping for incremental output, separately for each backend.
+   */
+  incremental: Map<OutFsBackend, IncrementalState>;
 };
 
 const [getState, _setState] = createSubstate<OutFS>(() => ({
@@ -210,6 +280,7 @@ const [getState, _setState] = createSubstate<OutFS>(() => ({
     filename: null,
   },
   mount: Deno.cwd(),
+  incremental: new Map(),
 }));
 
 /**
@@ -220,384 +291,2670 @@ export function outMount(ctx: Context): string {
 }
 
 /**
- * Get the current out directory as an `OutFsPath`.
+ * A storage backend for the OutFs: the place where the `Dir` and `File` macros
+ * actually materialize their output.
  *
- * The returned path is always an absolute path (i.e., its `relatvity` is -1).
+ * All paths are given as the components of absolute paths in the OutFs, it is
+ * up to the backend to map them to wherever it stores its data.
+ *
+ * Backends report failures by logging and halting, just like the functions of
+ * macromania_fs.
  */
-export function outCwd(ctx: Context): OutFsPath {
-  return absoluteOutFsPath([...getState(ctx).shell.cwd]);
+export type OutFsBackend = {
+  /**
+   * Ensure that there is an empty directory at the given path, deleting its
+   * contents if necessary.
+   */
+  emptyDir: (ctx: Context, path: string[]) => Promise<void>;
+  /**
+   * Ensure that there is a directory at the given path, leaving any contents
+   * untouched.
+   */
+  ensureDir: (ctx: Context, path: string[]) => Promise<void>;
+  /**
+   * Ensure that there is no file or directory at the given path.
+   */
+  ensureNot: (ctx: Context, path: string[]) => Promise<void>;
+  /**
+   * Write a string to a file at the given path, creating it if needed, else
+   * overwriting.
+   */
+  writeTextFile: (
+    ctx: Context,
+    path: string[],
+    content: string,
+  ) => Promise<void>;
+  /**
+   * Write raw bytes to a file at the given path, creating it if needed, else
+   * overwriting.
+   */
+  writeFile: (ctx: Context, path: string[], data: Uint8Array) => Promise<void>;
+  /**
+   * Synchronously create a directory at the given path if there is none yet.
+   */
+  mkdirSync: (ctx: Context, path: string[]) => void;
+  /**
+   * Read the file at the given path as a string, or return `null` if there is
+   * no such file.
+   */
+  readTextFile: (ctx: Context, path: string[]) => Promise<string | null>;
+  /**
+   * Return whether there is a file or directory at the given path.
+   */
+  exists: (ctx: Context, path: string[]) => Promise<boolean>;
+  /**
+   * List the entries of the directory at the given path. Returns the empty
+   * array if there is no such directory.
+   */
+  listDir: (ctx: Context, path: string[]) => Promise<DirEntry[]>;
+  /**
+   * Create a symbolic link at the given path, pointing to `target`.
+   */
+  symlink: (ctx: Context, path: string[], target: string[]) => Promise<void>;
+  /**
+   * Copy the file or directory at `from` to `to`.
+   */
+  copy: (ctx: Context, from: string[], to: string[]) => Promise<void>;
+};
+
+/**
+ * An entry of a directory, as listed by an {@linkcode OutFsBackend}.
+ */
+export type DirEntry = {
+  name: string;
+  isDirectory: boolean;
+};
+
+/**
+ * The default {@linkcode OutFsBackend}: writes to the real file system, below
+ * the mount point of the OutFs (see {@linkcode outMount}). All file system
+ * access goes through the functions of macromania_fs, so it respects the
+ * configured `FsProvider` and dry runs.
+ */
+export const diskBackend: OutFsBackend = {
+  emptyDir: async (ctx, path) => {
+    await emptyDir(ctx, physicalPath(ctx, path));
+  },
+  ensureDir: async (ctx, path) => {
+    await ensureDir(ctx, physicalPath(ctx, path));
+  },
+  ensureNot: async (ctx, path) => {
+    await ensureNot(ctx, physicalPath(ctx, path));
+  },
+  writeTextFile: async (ctx, path, content) => {
+    await writeTextFile(ctx, physicalPath(ctx, path), content);
+  },
+  writeFile: async (ctx, path, data) => {
+    await writeFile(ctx, physicalPath(ctx, path), data);
+  },
+  mkdirSync: (ctx, path) => {
+    mkdirSync(ctx, physicalPath(ctx, path), { recursive: true });
+  },
+  readTextFile: async (ctx, path) => {
+    const physical = physicalPath(ctx, path);
+    if (!(await exists(ctx, physical))) {
+      return null;
+    }
+    return await readTextFile(ctx, physical);
+  },
+  exists: async (ctx, path) => {
+    return await exists(ctx, physicalPath(ctx, path));
+  },
+  listDir: async (ctx, path) => {
+    return await readPhysicalDir(ctx, physicalPath(ctx, path));
+  },
+  symlink: async (ctx, path, target) => {
+    // Use relative links, so that the output can be moved around.
+    const physical = physicalPath(ctx, path);
+    const physicalTarget = physicalPath(ctx, target);
+    const isDirectory = await exists(ctx, physicalTarget) &&
+      (await stat(ctx, physicalTarget))?.isDirectory === true;
+    await symlink(
+      ctx,
+      relative(dirname(physical), physicalTarget),
+      physical,
+      { type: isDirectory ? "dir" : "file" },
+    );
+  },
+  copy: async (ctx, from, to) => {
+    await copy(ctx, physicalPath(ctx, from), physicalPath(ctx, to));
+  },
+};
+
+function physicalPath(ctx: Context, components: string[]): string {
+  return join(getState(ctx).mount, ...components);
 }
 
 /**
- * Get the name of the current file, or `null` if called outside of any `File`
- * macro invocation.
+ * List the entries of a directory in the file system. A nonexistent
+ * directory has no entries.
  */
-export function outFilename(ctx: Context): string | null {
-  return getState(ctx).shell.filename;
+async function readPhysicalDir(
+  ctx: Context,
+  physical: string,
+): Promise<DirEntry[]> {
+  if (!(await exists(ctx, physical))) {
+    return [];
+  }
+  return (await readDir(ctx, physical)).map((entry) => ({
+    name: entry.name,
+    isDirectory: entry.isDirectory,
+  }));
 }
 
-export function outFullPath(ctx: Context): OutFsPath {
-  const filename = outFilename(ctx);
-  const cwd = outCwd(ctx);
+/**
+ * An {@linkcode OutFsBackend} that keeps all output in memory, and that can be
+ * inspected once evaluation has finished. Useful for tests and dry runs.
+ */
+export type MemoryBackend = OutFsBackend & {
+  /**
+   * Get the contents of the file at the given path, or `null` if there is no
+   * such file. Relative paths are resolved from the root of the OutFs.
+   */
+  readFile: (path: OutFsPath) => string | null;
+  /**
+   * Get the raw bytes of the file at the given path, or `null` if there is no
+   * such file. Relative paths are resolved from the root of the OutFs.
+   */
+  readBinaryFile: (path: OutFsPath) => Uint8Array | null;
+  /**
+   * Get the sorted names of all entries of the directory at the given path, or
+   * `null` if there is no such directory. Relative paths are resolved from the
+   * root of the OutFs.
+   */
+  readDir: (path: OutFsPath) => string[] | null;
+};
 
-  if (filename === null) {
-    return cwd;
+/**
+ * A node in a {@linkcode MemoryBackend}: file contents, a directory, or a
+ * symbolic link.
+ */
+type MemoryNode = Uint8Array | Map<string, MemoryNode> | MemoryLink;
+
+/**
+ * A symbolic link in a {@linkcode MemoryBackend}, given by the components of
+ * the absolute path it points to.
+ */
+type MemoryLink = { link: string[] };
+function isMemoryLink(n: MemoryNode): n is MemoryLink {
+  return !(n instanceof Uint8Array) && !(n instanceof Map);
+}
+
+function cloneMemoryNode(n: MemoryNode): MemoryNode {
+  if (n instanceof Uint8Array) {
+    return new Uint8Array(n);
+  } else if (n instanceof Map) {
+    const clone = new Map<string, MemoryNode>();
+    for (const [name, child] of n) {
+      clone.set(name, cloneMemoryNode(child));
+    }
+    return clone;
   } else {
-    const ret = cloneOutFsPath(cwd);
-    ret.components.push(filename);
-    return ret;
+    return { link: [...n.link] };
   }
 }
 
 /**
- * Change the current out directory for the children of this macro.
+ * Create a new, empty {@linkcode MemoryBackend}.
  *
- * @param path - An {@linkcode OutFsPath} to resolve from the current out
- * directory.
- * @param create - Whether to create missing parent directories (`true`) or
- * error on missing parent directories (`false`). Defaults to `false`.
- * @param children - Expressions to evaluate in a changed current out
- * directory.
- * @returns The evaluated children.
+ * ```tsx
+ * const backend = createMemoryBackend();
+ * await ctx.evaluate(
+ *   <Config options={<ConfigOutFs backend={backend} />}>
+ *     <Dir name="foo">
+ *       <File name="bar.txt">Hi!</File>
+ *     </Dir>
+ *   </Config>,
+ * );
+ * backend.readFile(absoluteOutFsPath(["foo", "bar.txt"])); // "Hi!"
+ * ```
  */
-export function Cd({ children: children_, path: path_, create = false }: {
-  path: OutFsPath;
-  create?: boolean;
-  children?: Expressions;
-}): Expression {
-  const children = expressions(children_);
-  const path = cloneOutFsPath(path_);
+export function createMemoryBackend(): MemoryBackend {
+  const root: Map<string, MemoryNode> = new Map();
+
+  // Get the node at the given path, or `undefined` if there is none.
+  // Follows symbolic links.
+  function lookup(path: string[], hops = 0): MemoryNode | undefined {
+    let current: MemoryNode = root;
+    for (const component of path) {
+      if (!(current instanceof Map)) {
+        return undefined;
+      }
 
-  // Some state to let `pre` and `post` cooperate in changing the current
-  // out dir and later undoing the change.
-  let priorOutDirectory: string[] = [];
+      const next: MemoryNode | undefined = current.get(component);
+      if (next === undefined) {
+        return undefined;
+      }
+      current = next;
 
-  // Reset the current out dir to what they where before this macro.
-  const post = (ctx: Context) => {
-    const state = getState(ctx);
-    state.shell.cwd = priorOutDirectory;
-  };
+      if (isMemoryLink(current)) {
+        if (hops >= maxAliasHops) {
+          return undefined;
+        }
 
-  // Remember the prior out dir to the current one, then update the
-  // actual state to the new ones.
-  const pre = (ctx: Context) => {
-    const initialCwd = outCwd(ctx);
-    const shell = getState(ctx).shell;
-    // Remember the old cwd.
-    priorOutDirectory = [...shell.cwd];
+        const target = lookup(current.link, hops + 1);
+        if (target === undefined) {
+          return undefined;
+        }
+        current = target;
+      }
+    }
+    return current;
+  }
 
-    /* Now we set the new cwd */
+  // Get the directory containing the given path, creating missing ancestors
+  // if `create` is true. Logs, halts, and returns `null` on failure.
+  function parentDir(
+    ctx: Context,
+    path: string[],
+    create: boolean,
+  ): Map<string, MemoryNode> | null {
+    let current = root;
+    for (let i = 0; i < path.length - 1; i++) {
+      let next = current.get(path[i]);
+      if (next === undefined && create) {
+        next = new Map();
+        current.set(path[i], next);
+      }
 
-    if (path.relativity === -1) {
-      // We cd to an absolute path by setting the cwd to the root directory
-      // and then treating the path like a relative one.
-      shell.cwd = [];
-      path.relativity = 0;
+      if (!(next instanceof Map)) {
+        failMemory(
+          ctx,
+          `${
+            styleOutFsPath(absoluteOutFsPath(path.slice(0, i + 1)))
+          } is not a directory.`,
+          path,
+        );
+        return null;
+      }
+      current = next;
     }
+    return current;
+  }
 
-    // Move upwards for any `..`.
-    while (path.relativity > 0) {
-      if (shell.cwd.length > 0) {
-        shell.cwd.pop();
+  function failMemory(ctx: Context, msg: string, path: string[]) {
+    l.error(
+      ctx,
+      `In-memory OutFs backend failed at ${
+        styleOutFsPath(absoluteOutFsPath(path))
+      }`,
+    );
+    l.logGroup(ctx, () => l.error(ctx, msg));
+    ctx.halt();
+  }
+
+  function lookupOutFsPath(path: OutFsPath): MemoryNode | undefined {
+    return path.relativity > 0 ? undefined : lookup(path.components);
+  }
+
+  function write(ctx: Context, path: string[], data: Uint8Array) {
+    const parent = parentDir(ctx, path, false);
+    if (parent !== null) {
+      const name = path[path.length - 1];
+      if (parent.get(name) instanceof Map) {
+        failMemory(ctx, `Cannot write to a directory.`, path);
       } else {
-        const dotdot = styleOutFsPath({ relativity: 1, components: [] });
-        logResolveFailure(ctx, path_, initialCwd);
-        l.logGroup(ctx, () => {
-          l.error(
-            ctx,
-            `Reached the root of the out fs after processing ${
-              path_.relativity - path.relativity
-            } many ${dotdot}`,
-          );
-          l.error(
-            ctx,
-            `But the remaining path has ${path.relativity} more ${dotdot}:`,
-          );
-          l.error(ctx, `${styleOutFsPath(path)}`);
-        });
-        return ctx.halt();
+        parent.set(name, data);
+        l.trace(
+          ctx,
+          `Wrote in-memory file ${styleOutFsPath(absoluteOutFsPath(path))}`,
+        );
       }
-
-      path.relativity -= 1;
     }
+  }
 
-    // Done processing the `..`, can concat the path components to the cwd.
-    shell.cwd = shell.cwd.concat(path.components);
-
-    // Trigger an error if the resulting cwd is invalid for any reason.
-    const node = resolveCwd(ctx, create, path_, initialCwd);
-    const _ = ensureOutNodeIsDir(ctx, node, path_, initialCwd, outCwd(ctx));
-  };
+  function asText(node: MemoryNode | undefined): string | null {
+    return node instanceof Uint8Array ? new TextDecoder().decode(node) : null;
+  }
 
-  return (
-    <lifecycle pre={pre} post={post}>
-      <fragment exps={children} />
-    </lifecycle>
-  );
-}
+  return {
+    emptyDir: (ctx, path) => {
+      if (path.length === 0) {
+        root.clear();
+      } else {
+        const parent = parentDir(ctx, path, true);
+        if (parent !== null) {
+          parent.set(path[path.length - 1], new Map());
+        }
+      }
+      l.trace(
+        ctx,
+        `Ensured an empty in-memory directory at ${
+          styleOutFsPath(absoluteOutFsPath(path))
+        }`,
+      );
+      return Promise.resolve();
+    },
+    ensureDir: (ctx, path) => {
+      const parent = parentDir(ctx, path, true);
+      if (parent !== null && path.length > 0) {
+        const name = path[path.length - 1];
+        const existing = parent.get(name);
+        if (existing === undefined) {
+          parent.set(name, new Map());
+        } else if (!(existing instanceof Map)) {
+          failMemory(ctx, `Expected a directory, found a file.`, path);
+        }
+      }
+      return Promise.resolve();
+    },
+    ensureNot: (ctx, path) => {
+      if (path.length === 0) {
+        root.clear();
+      } else {
+        const parent = lookup(path.slice(0, -1));
+        if (parent instanceof Map) {
+          parent.delete(path[path.length - 1]);
+        }
+      }
+      l.trace(
+        ctx,
+        `Ensured that there is no in-memory file (or directory) at ${
+          styleOutFsPath(absoluteOutFsPath(path))
+        }`,
+      );
+      return Promise.resolve();
+    },
+    writeTextFile: (ctx, path, content) => {
+      write(ctx, path, new TextEncoder().encode(content));
+      return Promise.resolve();
+    },
+    writeFile: (ctx, path, data) => {
+      // Copy the data, so that later changes by the caller do not leak in.
+      write(ctx, path, new Uint8Array(data));
+      return Promise.resolve();
+    },
+    mkdirSync: (ctx, path) => {
+      const parent = parentDir(ctx, path, false);
+      if (parent !== null && !parent.has(path[path.length - 1])) {
+        parent.set(path[path.length - 1], new Map());
+      }
+    },
+    readTextFile: (_ctx, path) => {
+      return Promise.resolve(asText(lookup(path)));
+    },
+    exists: (_ctx, path) => {
+      return Promise.resolve(lookup(path) !== undefined);
+    },
+    listDir: (_ctx, path) => {
+      const node = lookup(path);
+      const entries: DirEntry[] = [];
+      if (node instanceof Map) {
+        for (const [name, child] of node) {
+          entries.push({ name, isDirectory: child instanceof Map });
+        }
+      }
+      return Promise.resolve(entries);
+    },
+    symlink: (ctx, path, target) => {
+      const parent = parentDir(ctx, path, false);
+      if (parent !== null) {
+        parent.set(path[path.length - 1], { link: [...target] });
+        l.trace(
+          ctx,
+          `Created in-memory symlink ${
+            styleOutFsPath(absoluteOutFsPath(path))
+          } to ${styleOutFsPath(absoluteOutFsPath(target))}`,
+        );
+      }
+      return Promise.resolve();
+    },
+    copy: (ctx, from, to) => {
+      const node = lookup(from);
+      if (node === undefined) {
+        failMemory(
+          ctx,
+          `Nothing to copy at ${styleOutFsPath(absoluteOutFsPath(from))}.`,
+          to,
+        );
+        return Promise.resolve();
+      }
 
-function logResolveFailure(ctx: Context, path: OutFsPath, from: OutFsPath) {
-  l.error(ctx, `Failed to resolve OutFsPath to a directory.`);
-  l.logGroup(ctx, () => {
-    l.error(ctx, `path: ${styleOutFsPath(path)}`);
-    l.error(ctx, `from out-cwd: ${styleOutFsPath(from)}`);
-  });
+      const parent = parentDir(ctx, to, false);
+      if (parent !== null) {
+        parent.set(to[to.length - 1], cloneMemoryNode(node));
+        l.trace(
+          ctx,
+          `Copied in-memory ${styleOutFsPath(absoluteOutFsPath(from))} to ${
+            styleOutFsPath(absoluteOutFsPath(to))
+          }`,
+        );
+      }
+      return Promise.resolve();
+    },
+    readFile: (path) => {
+      return asText(lookupOutFsPath(path));
+    },
+    readBinaryFile: (path) => {
+      const node = lookupOutFsPath(path);
+      return node instanceof Uint8Array ? node : null;
+    },
+    readDir: (path) => {
+      const node = lookupOutFsPath(path);
+      return node instanceof Map ? [...node.keys()].sort() : null;
+    },
+  };
 }
 
 /**
- * Internal function: resolves the pwd of the shell to an OutFsNode. Halts if
- * impossible.
- * @param ctx - The context whose shell should be resolved to a node.
- * @param create - Whether to create missing parent directories (`true`) or
- * error on missing parent directories (`false`).
- * @param path - The path to originally resolve, for better error messages.
- * @param from - The path from where to originally resolve, for better error
- * messages.
+ * Configuration options for the OutFs.
  */
-function resolveCwd(
-  ctx: Context,
-  create: boolean,
-  path: OutFsPath,
-  from: OutFsPath,
-): OutFsNode {
-  const shell = getState(ctx).shell;
-
-  const startPath = [...shell.cwd];
-
-  // We resolve the path by iteratively resolving the first path component.
-  let currentPath = [...startPath];
-  // The components that have already been resolved.
-  // The algorithm maintains concat(resolved, currentPath) == shell.cwd
-  let resolved: string[] = [];
-  // While resolving the path, this variable stores the successive directories.
+export type OutFsConfig = {
+  /**
+   * The {@linkcode OutFsBackend} to which `Dir` and `File` write their output.
+   * Defaults to the {@linkcode diskBackend}.
+   */
+  backend?: OutFsBackend;
+  /**
+   * Whether `Dir` and `File` should produce incremental output: files whose
+   * contents did not change since the prior build are not rewritten, and
+   * directories are not cleaned. Defaults to `false`.
+   */
+  incremental?: boolean;
+  /**
+   * The file in which to persist the content hashes of incrementally written
+   * files, as a path in the real file system (relative paths are resolved
+   * against the cwd of the process). If `undefined` (the default), the
+   * manifest is stored as {@linkcode incrementalManifestName} in the root of
+   * the OutFs, where it becomes part of the output. Separate mounts need
+   * separate manifests.
+   */
+  incrementalManifest?: string;
+  /**
+   * Glob patterns of files that a `Dir` with `clean="stale"` never deletes,
+   * even if no macro produced them. The patterns are matched against the paths
+   * relative to that directory, e.g., `"CNAME"` or `".well-known/**"`.
+   */
+  keepStale?: string[];
+  /**
+   * If `true`, a `Dir` with `clean="stale"` merely reports stale files (at log
+   * level `"info"`) instead of deleting them. Defaults to `false`.
+   */
+  dryRunStale?: boolean;
+  /**
+   * How `Alias` macros materialize in the backend. Defaults to `"symlink"`.
+   */
+  aliases?: AliasMaterialization;
+  /**
+   * The {@linkcode PostProcessor}s to apply to the contents of every `File`,
+   * in order. Defaults to the empty array.
+   */
+  postProcessors?: PostProcessor[];
+  /**
+   * Which names to accept for new files and directories. Defaults to
+   * `"none"`.
+   */
+  portability?: Portability;
+};
+
+/**
+ * Transforms the contents of every `File` whose name matches a glob `pattern`
+ * (e.g., `"*.html"`), right before the contents are written to the backend.
+ * Useful for minifying, pretty-printing, normalizing line endings, etc.
+ */
+export type PostProcessor = {
+  /**
+   * A glob pattern, matched against the name of the file.
+   */
+  pattern: string;
+  /**
+   * Transform the contents of the file at the given path. Can report problems
+   * through the `logger` of the OutFs.
+   */
+  process: (
+    ctx: Context,
+    content: string,
+    path: OutFsPath,
+    logger: Logger,
+  ) => string | Promise<string>;
+};
+
+const [getConfig, ConfigOutFs] = createConfigOptions<OutFsConfig, OutFsConfig>(
+  "ConfigOutFs",
+  () => ({
+    backend: diskBackend,
+    incremental: false,
+    keepStale: [],
+    dryRunStale: false,
+    aliases: "symlink",
+    postProcessors: [],
+    portability: "none",
+  }),
+  (oldValue, update) => {
+    const newValue = { ...oldValue };
+    if (update.backend !== undefined) {
+      newValue.backend = update.backend;
+    }
+    if (update.incremental !== undefined) {
+      newValue.incremental = update.incremental;
+    }
+    if (update.incrementalManifest !== undefined) {
+      newValue.incrementalManifest = update.incrementalManifest;
+    }
+    if (update.keepStale !== undefined) {
+      newValue.keepStale = update.keepStale;
+    }
+    if (update.dryRunStale !== undefined) {
+      newValue.dryRunStale = update.dryRunStale;
+    }
+    if (update.aliases !== undefined) {
+      newValue.aliases = update.aliases;
+    }
+    if (update.postProcessors !== undefined) {
+      newValue.postProcessors = update.postProcessors;
+    }
+    if (update.portability !== undefined) {
+      newValue.portability = update.portability;
+    }
+    return newValue;
+  },
+);
+export { ConfigOutFs };
+
+/**
+ * Get the {@linkcode OutFsBackend} that is currently configured.
+ */
+function getBackend(ctx: Context): OutFsBackend {
+  return getConfig(ctx).backend ?? diskBackend;
+}
+
+/**
+ * The name of the file in the root of the OutFs in which we persist the
+ * content hashes of all incrementally written files, unless configured
+ * otherwise via the `incrementalManifest` option of {@linkcode ConfigOutFs}.
+ */
+export const incrementalManifestName = ".outfs-manifest.json";
+
+/**
+ * Bookkeeping for incremental output.
+ */
+type IncrementalState = {
+  /**
+   * The absolute path of the manifest in the real file system, or `null` if
+   * the manifest is stored in the root of the backend.
+   */
+  manifest: string | null;
+  /**
+   * Maps the `/`-joined path components of all files of the prior build to
+   * their content hashes, as loaded from the manifest.
+   */
+  previous: Promise<Map<string, string>>;
+  /**
+   * Maps the `/`-joined path components of all files written incrementally in
+   * this build to their content hashes.
+   */
+  current: Map<string, string>;
+  /**
+   * The evaluation round in which we last removed stale files and wrote the
+   * manifest, to avoid doing so more than once per round.
+   */
+  finishedInRound: number;
+};
+
+function getIncrementalState(
+  ctx: Context,
+  backend: OutFsBackend,
+): IncrementalState {
+  const state = getState(ctx);
+  let incremental = state.incremental.get(backend);
+
+  if (incremental === undefined) {
+    const configured = getConfig(ctx).incrementalManifest;
+    const manifest = configured === undefined ? null : resolve(configured);
+    incremental = {
+      manifest,
+      previous: loadIncrementalManifest(ctx, backend, manifest),
+      current: new Map(),
+      finishedInRound: -1,
+    };
+    state.incremental.set(backend, incremental);
+  }
+
+  return incremental;
+}
+
+async function loadIncrementalManifest(
+  ctx: Context,
+  backend: OutFsBackend,
+  manifest: string | null,
+): Promise<Map<string, string>> {
+  let raw: string | null;
+  if (manifest === null) {
+    raw = await backend.readTextFile(ctx, [incrementalManifestName]);
+  } else {
+    raw = await exists(ctx, manifest)
+      ? await readTextFile(ctx, manifest)
+      : null;
+  }
+  if (raw === null) {
+    return new Map();
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return new Map(Object.entries(parsed.files as Record<string, string>));
+  } catch (err) {
+    l.warn(
+      ctx,
+      `Could not parse the incremental output manifest ${
+        manifest === null
+          ? styleOutFsPath(absoluteOutFsPath([incrementalManifestName]))
+          : styleFile(manifest)
+      }, rewriting all files.`,
+    );
+    l.logGroup(ctx, () => l.warn(ctx, err));
+    return new Map();
+  }
+}
+
+/**
+ * Register the content hash of an incrementally written file, and return
+ * whether the backend already holds that exact content from a prior build.
+ */
+async function registerIncrementalFile(
+  ctx: Context,
+  backend: OutFsBackend,
+  path: string[],
+  hash: string,
+): Promise<boolean> {
+  const incremental = getIncrementalState(ctx, backend);
+  const key = path.join("/");
+  incremental.current.set(key, hash);
+
+  const previous = await incremental.previous;
+  return previous.get(key) === hash && await backend.exists(ctx, path);
+}
+
+/**
+ * Remove all files that were written by a prior incremental build but that
+ * were not produced this time, then persist the manifest of the current build.
+ */
+async function finishIncremental(ctx: Context, backend: OutFsBackend) {
+  const incremental = getIncrementalState(ctx, backend);
+  if (incremental.finishedInRound === ctx.getRound()) {
+    return;
+  }
+  incremental.finishedInRound = ctx.getRound();
+
+  const root = getState(ctx).shell.root;
+  const previous = await incremental.previous;
+  for (const key of previous.keys()) {
+    const path = key.split("/");
+    if (
+      !incremental.current.has(key) &&
+      lookupOutFsNode(root, path, false) === null
+    ) {
+      await backend.ensureNot(ctx, path);
+    }
+  }
+
+  const files: Record<string, string> = {};
+  for (const key of [...incremental.current.keys()].sort()) {
+    files[key] = incremental.current.get(key)!;
+  }
+  const json = JSON.stringify({ files }, null, 2);
+  if (incremental.manifest === null) {
+    await backend.writeTextFile(ctx, [incrementalManifestName], json);
+  } else {
+    await ensureDir(ctx, dirname(incremental.manifest));
+    await writeTextFile(ctx, incremental.manifest, json);
+  }
+}
+
+/**
+ * Compute the hex-encoded SHA-256 hash of some content.
+ */
+async function hashContent(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return [...new Uint8Array(digest)].map((byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Internal macro: evaluates to the empty string once evaluation has settled,
+ * i.e., once `ctx.mustMakeProgress()` returns `true`, after running `fun`.
+ */
+function WhenSettled(
+  { fun }: { fun: (ctx: Context) => Promise<void> },
+): Expression {
+  return (
+    <impure
+      fun={async (ctx) => {
+        if (!ctx.mustMakeProgress()) {
+          return null;
+        }
+
+        await fun(ctx);
+        return "";
+      }}
+    />
+  );
+}
+
+/**
+ * Evaluate the children in a separate OutFs, mounted at the given path in the
+ * real file system. The separate OutFs has its own root directory, cwd, and
+ * bookkeeping for incremental output, so that several independent outputs can
+ * be produced in a single evaluation:
+ *
+ * ```tsx
+ * <>
+ *   <Mount path="public">
+ *     <File name="index.html">Hi!</File>
+ *   </Mount>
+ *   <Mount path="dist-latex">
+ *     <File name="main.tex">Hi!</File>
+ *   </Mount>
+ * </>
+ * ```
+ *
+ * @param path - The physical path of the mount point. Relative paths are
+ * resolved against the mount point of the surrounding OutFs. The directory is
+ * created if it does not exist yet.
+ * @returns The evaluated children.
+ */
+export function Mount(
+  { path, children }: { path: string; children?: Expressions },
+): Expression {
+  // The OutFs of this mount, swapped in while evaluating the children. Created
+  // when first evaluating the children.
+  let mounted: OutFS | null = null;
+  // The OutFs of the surrounding macros, restored after evaluating the
+  // children.
+  let outer: OutFS | null = null;
+
+  return (
+    <lifecycle
+      pre={(ctx) => {
+        const state = getState(ctx);
+        outer = { ...state };
+
+        if (mounted === null) {
+          mounted = {
+            shell: {
+              root: new Map(),
+              cwd: [],
+              filename: null,
+            },
+            mount: resolve(state.mount, path),
+            incremental: new Map(),
+          };
+        }
+
+        Object.assign(state, mounted);
+      }}
+      post={(ctx) => {
+        const state = getState(ctx);
+        mounted = { ...state };
+        Object.assign(state, outer);
+      }}
+    >
+      <impure
+        fun={async (ctx: Context) => {
+          await getBackend(ctx).ensureDir(ctx, []);
+          return "";
+        }}
+      />
+      <exps x={children} />
+    </lifecycle>
+  );
+}
+
+const stagingPrefix = ".outfs-staging-";
+const replacedPrefix = ".outfs-replaced-";
+
+/**
+ * Evaluate the children such that all output to the real file system goes into
+ * a temporary staging directory, which is swapped into the mount point of the
+ * OutFs only if the children evaluated without halting. A failed build thus
+ * leaves the previous output intact.
+ *
+ * Wrap this macro around your whole build: while the children are being
+ * evaluated, {@linkcode outMount} returns the staging directory. Because the
+ * staging directory starts out empty, `clean={false}` and incremental output
+ * have no prior output to preserve inside an atomic build.
+ *
+ * Swapping replaces every top-level entry produced by the build with a single
+ * rename each; top-level entries that the build did not produce are left
+ * untouched. Staging directories left over from earlier failed builds are
+ * removed when the next atomic build begins.
+ *
+ * In a dry run (see `ConfigFs`), the children are evaluated without staging,
+ * so that their plans refer to the actual output paths.
+ *
+ * @returns The evaluated children.
+ */
+export function AtomicBuild(
+  { children }: { children?: Expressions },
+): Expression {
+  return (
+    <impure
+      fun={async (ctx: Context) => {
+        const state = getState(ctx);
+        const mount = state.mount;
+
+        // Clean up after prior builds that failed.
+        for (const entry of await readPhysicalDir(ctx, mount)) {
+          if (
+            entry.name.startsWith(stagingPrefix) ||
+            entry.name.startsWith(replacedPrefix)
+          ) {
+            await ensureNot(ctx, join(mount, entry.name));
+          }
+        }
+
+        if (isDryRun(ctx)) {
+          // Nothing gets written, so there is nothing to stage. Let the
+          // children report their plans for the actual output paths.
+          l.trace(ctx, `Not staging output in a dry run.`);
+          return <exps x={children} />;
+        }
+
+        // Create the staging directory inside the mount, so that swapping
+        // can rename within a single file system.
+        const staging = await makeTempDir(ctx, {
+          dir: mount,
+          prefix: stagingPrefix,
+        });
+        if (staging === "") {
+          return null;
+        }
+
+        l.trace(ctx, `Staging all output in ${staging}`);
+
+        // Only the children write into the staging directory, not any
+        // surrounding macros.
+        let outer = mount;
+        return (
+          <map
+            fun={async (evaled: string, ctx: Context) => {
+              await swapStagedOutput(ctx, staging, mount);
+              return evaled;
+            }}
+          >
+            <lifecycle
+              pre={(ctx) => {
+                const state = getState(ctx);
+                outer = state.mount;
+                state.mount = staging;
+              }}
+              post={(ctx) => {
+                getState(ctx).mount = outer;
+              }}
+            >
+              <exps x={children} />
+            </lifecycle>
+          </map>
+        );
+      }}
+    />
+  );
+}
+
+/**
+ * Internal function: move all entries of the staging directory into the
+ * mount, then delete the staging directory and any replaced prior output.
+ *
+ * If any move fails, all prior moves are undone, so that the mount keeps its
+ * previous output. The staging directory and the replaced output are then left
+ * for the next atomic build to clean up.
+ */
+async function swapStagedOutput(ctx: Context, staging: string, mount: string) {
+  const replaced = await makeTempDir(ctx, {
+    dir: mount,
+    prefix: replacedPrefix,
+  });
+  if (replaced === "") {
+    return;
+  }
+
+  // Every successful move, in order, so that they can be undone.
+  const moves: [string, string][] = [];
+
+  const move = async (from: string, to: string) => {
+    await rename(ctx, from, to);
+    // `rename` halts rather than throwing, so check whether it did anything.
+    if (await exists(ctx, from)) {
+      return false;
+    }
+    moves.push([from, to]);
+    return true;
+  };
+
+  for (const entry of await readPhysicalDir(ctx, staging)) {
+    const target = join(mount, entry.name);
+    if (
+      (await exists(ctx, target) &&
+        !(await move(target, join(replaced, entry.name)))) ||
+      !(await move(join(staging, entry.name), target))
+    ) {
+      l.error(
+        ctx,
+        `Failed to swap the staged output into ${mount}, restoring the previous output.`,
+      );
+      for (const [from, to] of moves.reverse()) {
+        await rename(ctx, to, from);
+      }
+      ctx.halt();
+      return;
+    }
+  }
+
+  await ensureNot(ctx, replaced);
+  await ensureNot(ctx, staging);
+  l.trace(ctx, `Swapped staged output into ${mount}`);
+}
+
+/**
+ * Get the current out directory as an `OutFsPath`.
+ *
+ * The returned path is always an absolute path (i.e., its `relatvity` is -1).
+ */
+export function outCwd(ctx: Context): OutFsPath {
+  return absoluteOutFsPath([...getState(ctx).shell.cwd]);
+}
+
+/**
+ * Get the name of the current file, or `null` if called outside of any `File`
+ * macro invocation.
+ */
+export function outFilename(ctx: Context): string | null {
+  return getState(ctx).shell.filename;
+}
+
+export function outFullPath(ctx: Context): OutFsPath {
+  const filename = outFilename(ctx);
+  const cwd = outCwd(ctx);
+
+  if (filename === null) {
+    return cwd;
+  } else {
+    const ret = cloneOutFsPath(cwd);
+    ret.components.push(filename);
+    return ret;
+  }
+}
+
+/**
+ * The kind of a node in the OutFs.
+ */
+export type OutFsNodeKind = "file" | "directory" | "alias";
+
+/**
+ * A single child of a directory in the OutFs.
+ */
+export type OutFsEntry = {
+  name: string;
+  kind: OutFsNodeKind;
+};
+
+function kindOf(node: OutFsNode_): OutFsNodeKind {
+  if (isOutDir(node)) {
+    return "directory";
+  } else if (isOutFile(node)) {
+    return "file";
+  } else {
+    return "alias";
+  }
+}
+
+/**
+ * Internal function: get the node at the given path, resolved against the
+ * current out directory, or `null` if there is none. Follows aliases.
+ */
+function queryOutFsNode(
+  ctx: Context,
+  path: OutFsPath,
+): ResolvedOutFsNode | null {
+  return lookupOutFsNode(
+    getState(ctx).shell.root,
+    resolveRelativePath(ctx, path).components,
+  );
+}
+
+/**
+ * Check whether the OutFs contains a file or directory at the given path.
+ * Aliases are followed, so an alias to a nonexistent node does not count.
+ *
+ * Only reflects the nodes that have been created so far; use
+ * {@linkcode OutFsSettled} to query the complete OutFs.
+ *
+ * @param path - An {@linkcode OutFsPath} to resolve from the current out
+ * directory.
+ */
+export function outExists(ctx: Context, path: OutFsPath): boolean {
+  return queryOutFsNode(ctx, path) !== null;
+}
+
+/**
+ * List the children of a directory in the OutFs, sorted by name. Returns
+ * `null` if there is no directory at the given path.
+ *
+ * Only reflects the nodes that have been created so far; use
+ * {@linkcode OutFsSettled} to query the complete OutFs.
+ *
+ * @param path - An {@linkcode OutFsPath} to resolve from the current out
+ * directory.
+ */
+export function outList(ctx: Context, path: OutFsPath): OutFsEntry[] | null {
+  const found = queryOutFsNode(ctx, path);
+  if (found === null || !isOutDir(found.node.node)) {
+    return null;
+  }
+
+  const dir = found.node.node;
+  return [...dir.keys()].sort().map((name) => ({
+    name,
+    kind: kindOf(dir.get(name)!.node),
+  }));
+}
+
+/**
+ * Call `visit` for every node below the directory at the given path (but not
+ * for that directory itself), in depth-first order with siblings sorted by
+ * name. Does nothing if there is no directory at the given path. Aliases are
+ * visited, but not walked into.
+ *
+ * Only reflects the nodes that have been created so far; use
+ * {@linkcode OutFsSettled} to query the complete OutFs.
+ *
+ * @param visit - Called with the absolute, canonical path and the kind of every
+ * node.
+ * @param path - An {@linkcode OutFsPath} to resolve from the current out
+ * directory. Defaults to the root of the OutFs.
+ */
+export function outWalk(
+  ctx: Context,
+  visit: (path: OutFsPath, kind: OutFsNodeKind) => void,
+  path: OutFsPath = absoluteOutFsPath([]),
+) {
+  const found = queryOutFsNode(ctx, path);
+  if (found === null || !isOutDir(found.node.node)) {
+    return;
+  }
+
+  const walk = (dir: OutDir, components: string[]) => {
+    for (const name of [...dir.keys()].sort()) {
+      const child = dir.get(name)!.node;
+      const childComponents = [...components, name];
+      visit(absoluteOutFsPath(childComponents), kindOf(child));
+      if (isOutDir(child)) {
+        walk(child, childComponents);
+      }
+    }
+  };
+  walk(found.node.node, found.path);
+}
+
+/**
+ * Evaluate to the expression returned by `fun`, but only call `fun` once
+ * evaluation has settled, i.e., once no other macro can make progress anymore.
+ * At that point, the OutFs contains everything that is going to be created,
+ * so `fun` can use {@linkcode outList}, {@linkcode outExists}, and
+ * {@linkcode outWalk} to build sitemaps, index pages, and similar listings.
+ *
+ * Nodes created by the expression returned from `fun` (or by other
+ * `OutFsSettled` invocations) are not seen by `fun`.
+ *
+ * @param fun - Produces the expression to evaluate to.
+ * @returns The result of evaluating the expression returned by `fun`.
+ */
+export function OutFsSettled(
+  { fun }: { fun: (ctx: Context) => Expression | Promise<Expression> },
+): Expression {
+  return (
+    <impure
+      fun={async (ctx: Context) => {
+        if (!ctx.mustMakeProgress()) {
+          return null;
+        }
+
+        return await fun(ctx);
+      }}
+    />
+  );
+}
+
+/**
+ * Change the current out directory for the children of this macro.
+ *
+ * @param path - An {@linkcode OutFsPath} to resolve from the current out
+ * directory.
+ * @param create - Whether to create missing parent directories (`true`) or
+ * error on missing parent directories (`false`). Defaults to `false`.
+ * @param children - Expressions to evaluate in a changed current out
+ * directory.
+ * @returns The evaluated children.
+ */
+export function Cd({ children: children_, path: path_, create = false }: {
+  path: OutFsPath;
+  create?: boolean;
+  children?: Expressions;
+}): Expression {
+  const children = expressions(children_);
+  const path = cloneOutFsPath(path_);
+
+  // Some state to let `pre` and `post` cooperate in changing the current
+  // out dir and later undoing the change.
+  let priorOutDirectory: string[] = [];
+
+  // Reset the current out dir to what they where before this macro.
+  const post = (ctx: Context) => {
+    const state = getState(ctx);
+    state.shell.cwd = priorOutDirectory;
+  };
+
+  // Remember the prior out dir to the current one, then update the
+  // actual state to the new ones.
+  const pre = (ctx: Context) => {
+    const initialCwd = outCwd(ctx);
+    const shell = getState(ctx).shell;
+    // Remember the old cwd.
+    priorOutDirectory = [...shell.cwd];
+
+    /* Now we set the new cwd */
+
+    if (path.relativity === -1) {
+      // We cd to an absolute path by setting the cwd to the root directory
+      // and then treating the path like a relative one.
+      shell.cwd = [];
+      path.relativity = 0;
+    }
+
+    // Move upwards for any `..`.
+    while (path.relativity > 0) {
+      if (shell.cwd.length > 0) {
+        shell.cwd.pop();
+      } else {
+        const dotdot = styleOutFsPath({ relativity: 1, components: [] });
+        logResolveFailure(ctx, path_, initialCwd);
+        l.logGroup(ctx, () => {
+          l.error(
+            ctx,
+            `Reached the root of the out fs after processing ${
+              path_.relativity - path.relativity
+            } many ${dotdot}`,
+          );
+          l.error(
+            ctx,
+            `But the remaining path has ${path.relativity} more ${dotdot}:`,
+          );
+          l.error(ctx, `${styleOutFsPath(path)}`);
+        });
+        return ctx.halt();
+      }
+
+      path.relativity -= 1;
+    }
+
+    // Done processing the `..`, can concat the path components to the cwd.
+    shell.cwd = shell.cwd.concat(path.components);
+
+    // Trigger an error if the resulting cwd is invalid for any reason.
+    const node = resolveCwd(ctx, create, path_, initialCwd);
+    const _ = ensureOutNodeIsDir(ctx, node, path_, initialCwd, outCwd(ctx));
+  };
+
+  return (
+    <lifecycle pre={pre} post={post}>
+      <fragment exps={children} />
+    </lifecycle>
+  );
+}
+
+function logResolveFailure(ctx: Context, path: OutFsPath, from: OutFsPath) {
+  l.error(ctx, `Failed to resolve OutFsPath to a directory.`);
+  l.logGroup(ctx, () => {
+    l.error(ctx, `path: ${styleOutFsPath(path)}`);
+    l.error(ctx, `from out-cwd: ${styleOutFsPath(from)}`);
+  });
+}
+
+/**
+ * Internal function: resolves the pwd of the shell to an OutFsNode. Halts if
+ * impossible.
+ * @param ctx - The context whose shell should be resolved to a node.
+ * @param create - Whether to create missing parent directories (`true`) or
+ * error on missing parent directories (`false`).
+ * @param path - The path to originally resolve, for better error messages.
+ * @param from - The path from where to originally resolve, for better error
+ * messages.
+ */
+function resolveCwd(
+  ctx: Context,
+  create: boolean,
+  path: OutFsPath,
+  from: OutFsPath,
+): OutFsNode {
+  const shell = getState(ctx).shell;
+
+  const startPath = [...shell.cwd];
+
+  // We resolve the path by iteratively resolving the first path component.
+  let currentPath = [...startPath];
+  // The components that have already been resolved.
+  // The algorithm maintains concat(resolved, currentPath) == shell.cwd
+  let resolved: string[] = [];
+  // While resolving the path, this variable stores the successive directories.
   let currentNode: OutFsNode = { source: {}, node: shell.root };
 
-  while (currentPath.length > 0) {
-    const [fst, ...rest] = currentPath;
+  while (currentPath.length > 0) {
+    const [fst, ...rest] = currentPath;
+
+    if (!isOutDir(currentNode.node)) {
+      // We have reached a leaf file, yet the path still has more components.
+      // Time to error out.
+      logResolveFailure(ctx, path, from);
+      l.logGroup(ctx, () => {
+        l.error(
+          ctx,
+          `${
+            styleOutFsPath(absoluteOutFsPath(currentPath))
+          } is not a directory.`,
+        );
+        l.error(
+          ctx,
+          `The non-directory was created at ${
+            styleDebuggingInformation(currentNode.source)
+          }`,
+        );
+      });
+      ctx.halt();
+      throw "just halted";
+    }
+
+    // Neither leaf file nor symlink, so we are in a directory.
+    // Look up the next path component.
+    let nextNode = currentNode.node.get(fst);
+    if (nextNode === undefined) {
+      // Path component not found. Should we create the directory?
+      if (create) {
+        // Yes, create the directory and act like it always was there.
+        checkPortability(
+          ctx,
+          currentNode.node,
+          absoluteOutFsPath(resolved),
+          fst,
+        );
+        nextNode = {
+          source: ctx.getCurrentDebuggingInformation(),
+          node: new Map(),
+        };
+        currentNode.node.set(fst, nextNode);
+        getBackend(ctx).mkdirSync(ctx, [...resolved, fst]);
+      } else {
+        // No, error instead of creating missing components.
+        logResolveFailure(ctx, path, from);
+        l.error(
+          ctx,
+          `  no file ${styleOutFsPath(singletonPath(fst))} in ${
+            styleOutFsPath(absoluteOutFsPath(resolved))
+          }`,
+        );
+        ctx.halt();
+        throw "just halted";
+      }
+    }
+
+    if (isOutAlias(nextNode.node)) {
+      // Follow the alias, and continue resolving from its target.
+      const alias = nextNode.node;
+      const aliasSource = nextNode.source;
+      const target = lookupOutFsNode(shell.root, alias.target);
+      if (target === null) {
+        logResolveFailure(ctx, path, from);
+        l.logGroup(ctx, () => {
+          logDanglingAlias(ctx, [...resolved, fst], alias, aliasSource);
+        });
+        ctx.halt();
+        throw "just halted";
+      }
+
+      currentPath = rest;
+      resolved = target.path;
+      currentNode = target.node;
+      continue;
+    }
+
+    // Successfully looked up the directory, so we successfully handled the
+    // first path component. Continue the loop with the next component.
+    currentPath = rest;
+    resolved = [...resolved, fst];
+    currentNode = nextNode;
+  }
+
+  // Aliases might have been followed, so store the canonical cwd.
+  shell.cwd = resolved;
+
+  return currentNode;
+}
+
+/**
+ * Error if the given node is not a directory.
+ */
+function ensureOutNodeIsDir(
+  ctx: Context,
+  node: OutFsNode,
+  path: OutFsPath,
+  from: OutFsPath,
+  resolved: OutFsPath,
+): OutDir {
+  if (isOutDir(node.node)) {
+    return node.node;
+  } else {
+    logResolveFailure(ctx, path, from);
+    l.logGroup(ctx, () => {
+      l.error(ctx, `The path resolved not to a directory but to a file:`);
+      l.error(ctx, `${styleOutFsPath(resolved)}`);
+      l.error(ctx, `File created at ${styleDebuggingInformation(node.source)}`);
+    });
+    ctx.halt();
+    throw "just halted";
+  }
+}
+
+/**
+ * A node of the OutFs, together with the components of its canonical path
+ * (i.e., the path without any aliases).
+ */
+type ResolvedOutFsNode = {
+  node: OutFsNode;
+  path: string[];
+};
+
+/**
+ * Get the node at the given path components from the root, or `null` if there
+ * is none. Follows aliases, except for an alias at the very end of the path if
+ * `followLast` is `false`. Never logs or halts.
+ */
+function lookupOutFsNode(
+  root: OutDir,
+  path: string[],
+  followLast = true,
+  hops = 0,
+): ResolvedOutFsNode | null {
+  let current: OutFsNode = { source: {}, node: root };
+  let canonical: string[] = [];
+
+  for (let i = 0; i < path.length; i++) {
+    if (!isOutDir(current.node)) {
+      return null;
+    }
+
+    const next = current.node.get(path[i]);
+    if (next === undefined) {
+      return null;
+    }
+
+    if (isOutAlias(next.node) && (followLast || i < path.length - 1)) {
+      if (hops >= maxAliasHops) {
+        return null;
+      }
+
+      const target = lookupOutFsNode(root, next.node.target, true, hops + 1);
+      if (target === null) {
+        return null;
+      }
+      current = target.node;
+      canonical = target.path;
+    } else {
+      current = next;
+      canonical = [...canonical, path[i]];
+    }
+  }
+
+  return { node: current, path: canonical };
+}
+
+/**
+ * To be used when somethings requires path arguments for error reporting
+ * but we know it cannot fail.
+ */
+const dummyPath = relativeOutFsPath([]);
+
+/**
+ * Describes what to do if there is already a file of some name.
+ *   - `"timid"`: Log error and halt.
+ *   - `"placid"`: Do nothing if there is already a file/directory of this name.
+ *   - `"assertive"`: Create a new empty directory at this name, no matter what.
+ */
+export type Mode = "timid" | "placid" | "assertive";
+
+/**
+ * Describes what a `File` does if there is already a file of some name: any
+ * {@linkcode Mode}, or
+ *   - `"append"`: Contribute to the file. All `File` macros of the same name in
+ *     `"append"` mode contribute a fragment to the file, and the fragments are
+ *     concatenated in the order in which the macros were first evaluated.
+ *
+ * A file in `"append"` mode cannot be replaced by an `"assertive"` macro, as
+ * that would silently drop the fragments. For the same reason, contributing a
+ * fragment after the file has been written is an error.
+ */
+export type FileMode = Mode | "append";
+
+/**
+ * Describes what a `Dir` does with preexisting contents of its directory.
+ *   - `true`: Delete all contents before producing new ones.
+ *   - `false`: Leave all contents untouched.
+ *   - `"stale"`: Leave all contents untouched at first, but once evaluation
+ *     has settled, delete all contents which no macro produced (respecting the
+ *     `keepStale` and `dryRunStale` options of {@linkcode OutFsConfig}).
+ */
+export type Clean = boolean | "stale";
+
+/**
+ * Create a directory in the current out directory, and `cd` there.
+ *
+ * @param name - The name of the directory to create.
+ * @param mode - What to do if there is already a file at this name. defaults
+ * to `"timid"`.
+ * @param clean - What to do with preexisting contents of the directory (see
+ * {@linkcode Clean}). Defaults to **`true`**. Incremental directories are
+ * never cleaned initially.
+ * @param incremental - Whether to produce incremental output in this directory
+ * (see {@linkcode OutFsConfig}). Defaults to the configured value.
+ * @param children - Expressions to evaluate in the new directory.
+ * @returns The evaluated children.
+ */
+export function Dir(
+  {
+    name,
+    children: children_,
+    mode = "timid",
+    clean = true,
+    incremental,
+  }: {
+    name: string;
+    mode?: Mode;
+    clean?: Clean;
+    incremental?: boolean;
+    children?: Expressions;
+  },
+): Expression {
+  const children = expressions(children_);
+
+  // The backend and the logical directory, set when creating the directory.
+  let backend = diskBackend;
+  let thisDir: OutDir = new Map();
+
+  // First, create the directory both in the OutFS and in the backend.
+  const createTheDir = (
+    <impure
+      fun={async (ctx: Context) => {
+        const state = getState(ctx);
+        backend = getBackend(ctx);
+
+        // Get the current directory (cannot fail).
+        const node = resolveCwd(ctx, false, dummyPath, dummyPath);
+        const outDir = ensureOutNodeIsDir(
+          ctx,
+          node,
+          dummyPath,
+          dummyPath,
+          outCwd(ctx),
+        );
+
+        const path = [...state.shell.cwd, name];
+
+        if (shouldAddNode(ctx, outDir, mode, name)) {
+          // Time to create an empty directory:
+          // in the logical OutFs...
+          outDir.set(name, {
+            source: ctx.getCurrentDebuggingInformation(),
+            node: new Map(),
+          });
+          // ... and in the backend. Incremental directories are never cleaned,
+          // stale files get removed once evaluation has settled instead.
+          const isIncremental = incremental ?? getConfig(ctx).incremental;
+          if (clean === true && !isIncremental) {
+            await backend.emptyDir(ctx, path);
+          } else {
+            await backend.ensureDir(ctx, path);
+          }
+        } else {
+          await backend.ensureDir(ctx, path);
+        }
+
+        const existing = outDir.get(name)!.node;
+        if (isOutDir(existing)) {
+          thisDir = existing;
+        }
+
+        return "";
+      }}
+    />
+  );
+
+  return (
+    <map
+      fun={(_: string, ctx: Context) => {
+        const path = [...getState(ctx).shell.cwd, name];
+        const { keepStale, dryRunStale } = getConfig(ctx);
+
+        return (
+          <Cd path={singletonPath(name)}>
+            {incremental === undefined
+              ? <fragment exps={children} />
+              : (
+                <Config options={<ConfigOutFs incremental={incremental} />}>
+                  <fragment exps={children} />
+                </Config>
+              )}
+            {clean === "stale"
+              ? (
+                <WhenSettled
+                  fun={(ctx) =>
+                    removeStale(
+                      ctx,
+                      backend,
+                      thisDir,
+                      path,
+                      (keepStale ?? []).map((pattern) =>
+                        globToRegExp(pattern, {
+                          extended: true,
+                          globstar: true,
+                        })
+                      ),
+                      dryRunStale ?? false,
+                    )}
+                />
+              )
+              : ""}
+          </Cd>
+        );
+      }}
+    >
+      {createTheDir}
+    </map>
+  );
+}
+
+/**
+ * Internal function: delete (or merely report) everything in the directory at
+ * `path` in the backend that is not part of the logical directory `dir`, unless
+ * it matches one of the `keep` patterns.
+ */
+async function removeStale(
+  ctx: Context,
+  backend: OutFsBackend,
+  dir: OutDir,
+  path: string[],
+  keep: RegExp[],
+  dryRun: boolean,
+) {
+  const stale: string[][] = [];
+  await collectStale(ctx, backend, dir, path, [], keep, stale);
+
+  for (const stalePath of stale) {
+    if (dryRun) {
+      l.info(
+        ctx,
+        `Stale output ${styleOutFsPath(absoluteOutFsPath(stalePath))}`,
+      );
+    } else {
+      await backend.ensureNot(ctx, stalePath);
+    }
+  }
+}
+
+/**
+ * Internal function: add the paths of all stale entries of the directory at
+ * `path` to `stale`. `dir` is the corresponding logical directory, or `null`
+ * if no macro produced the directory. `relative` is the path relative to the
+ * directory whose stale output we are collecting.
+ *
+ * Returns whether the directory itself is stale, in which case its contents
+ * have not been added to `stale`.
+ */
+async function collectStale(
+  ctx: Context,
+  backend: OutFsBackend,
+  dir: OutDir | null,
+  path: string[],
+  relative: string[],
+  keep: RegExp[],
+  stale: string[][],
+): Promise<boolean> {
+  let everythingStale = true;
+  const staleHere: string[][] = [];
+
+  for (const entry of await backend.listDir(ctx, path)) {
+    const entryPath = [...path, entry.name];
+    const entryRelative = [...relative, entry.name];
+
+    if (keep.some((pattern) => pattern.test(entryRelative.join("/")))) {
+      everythingStale = false;
+      continue;
+    }
+
+    const node = dir === null ? undefined : dir.get(entry.name);
+
+    if (node === undefined) {
+      if (!entry.isDirectory) {
+        staleHere.push(entryPath);
+      } else if (
+        await collectStale(
+          ctx,
+          backend,
+          null,
+          entryPath,
+          entryRelative,
+          keep,
+          stale,
+        )
+      ) {
+        staleHere.push(entryPath);
+      } else {
+        everythingStale = false;
+      }
+    } else {
+      everythingStale = false;
+
+      if (entry.isDirectory && isOutDir(node.node)) {
+        await collectStale(
+          ctx,
+          backend,
+          node.node,
+          entryPath,
+          entryRelative,
+          keep,
+          stale,
+        );
+      }
+    }
+  }
+
+  // Directories that some macro produced are never stale themselves.
+  if (dir !== null || !everythingStale) {
+    stale.push(...staleHere);
+    return false;
+  } else {
+    return true;
+  }
+}
+
+/**
+ * Create a file in current out directory, write the evaluated children there.
+ * The written contents pass through all configured
+ * {@linkcode PostProcessor}s first.
+ *
+ * @param name - The name of the file to create.
+ * @param mode - What to do if there is already a file at this name. Defaults to
+ * `"timid"`.
+ * @param children - Expressions to evaluate to form the file contents.
+ * @returns The evaluated children.
+ */
+export function File({ name, children: children_, mode = "timid" }: {
+  name: string;
+  mode?: FileMode;
+  children?: Expressions;
+}): Expression {
+  if (mode === "append") {
+    return <AppendToFile name={name}>{children_}</AppendToFile>;
+  }
+
+  const children = expressions(children_);
+
+  // Set when creating the file.
+  let created: CreatedOutFile | null = null;
+
+  // First, create the file in the OutFS.
+  const createTheFile = (
+    <impure
+      fun={(ctx: Context) => {
+        created = createOutFile(ctx, mode, name);
+
+        if (created === null || created.incremental) {
+          // Either nothing to write, or we want to keep any prior version
+          // around since we might not need to rewrite it.
+          return <fragment exps={children} />;
+        }
+
+        // Delete any prior version of the file from the backend.
+        const { backend, path } = created;
+        return (
+          <>
+            <impure
+              fun={async (ctx: Context) => {
+                await backend.ensureNot(ctx, path);
+                return "";
+              }}
+            />
+            <fragment exps={children} />
+          </>
+        );
+      }}
+    />
+  );
+
+  return (
+    <InFile name={name}>
+      <map
+        fun={async (evaled: string, ctx: Context) => {
+          if (created === null) {
+            return evaled;
+          }
 
-    if (isOutFile(currentNode.node)) {
-      // We have reached a leaf file, yet the path still has more components.
-      // Time to error out.
-      logResolveFailure(ctx, path, from);
-      l.logGroup(ctx, () => {
-        l.error(
+          const processed = await postProcess(ctx, created.path, evaled);
+          return <>{evaled}{await writeOutFile(ctx, created, processed)}</>;
+        }}
+      >
+        {createTheFile}
+      </map>
+    </InFile>
+  );
+}
+
+/**
+ * Internal function: apply all configured post-processors whose pattern
+ * matches the name of the file at the given path.
+ */
+async function postProcess(
+  ctx: Context,
+  path: string[],
+  content: string,
+): Promise<string> {
+  const outPath = absoluteOutFsPath(path);
+  const name = path[path.length - 1];
+
+  let processed = content;
+  for (const processor of getConfig(ctx).postProcessors ?? []) {
+    const regex = globToRegExp(processor.pattern, {
+      extended: true,
+      globstar: true,
+    });
+    if (regex.test(name)) {
+      l.trace(
+        ctx,
+        `Post-processing ${
+          styleOutFsPath(outPath)
+        }, matched by ${processor.pattern}`,
+      );
+      processed = await processor.process(ctx, processed, outPath, l);
+    }
+  }
+  return processed;
+}
+
+/**
+ * Internal macro: a `File` in `"append"` mode. The first such macro of some
+ * name creates the file and writes it once all fragments are known, later ones
+ * merely contribute their fragments.
+ */
+function AppendToFile(
+  { name, children: children_ }: { name: string; children?: Expressions },
+): Expression {
+  const children = expressions(children_);
+
+  // Set when creating or contributing to the file.
+  let appended: { fragments: (string | null)[]; index: number } | null = null;
+  // Set only if this macro created the file.
+  let created: CreatedOutFile | null = null;
+
+  const contribute = (
+    <impure
+      fun={(ctx: Context) => {
+        const state = getState(ctx);
+
+        // Get the current directory (cannot fail).
+        const node = resolveCwd(ctx, false, dummyPath, dummyPath);
+        const outDir = ensureOutNodeIsDir(
           ctx,
-          `${
-            styleOutFsPath(absoluteOutFsPath(currentPath))
-          } is not a directory.`,
+          node,
+          dummyPath,
+          dummyPath,
+          outCwd(ctx),
         );
-        l.error(
+
+        const existing = outDir.get(name);
+        if (existing === undefined) {
+          checkPortability(ctx, outDir, outCwd(ctx), name);
+          const fragments: (string | null)[] = [null];
+          const file: OutFile = { written: null, fragments };
+          outDir.set(name, {
+            source: ctx.getCurrentDebuggingInformation(),
+            node: file,
+          });
+          appended = { fragments, index: 0 };
+          created = {
+            backend: getBackend(ctx),
+            path: [...state.shell.cwd, name],
+            incremental: getConfig(ctx).incremental ?? false,
+            file,
+          };
+        } else if (
+          isOutFile(existing.node) && existing.node.fragments !== null
+        ) {
+          if (existing.node.written !== null) {
+            // The file has been written already, the fragment would be lost.
+            l.error(
+              ctx,
+              `Cannot append to ${styleOutFsPath(singletonPath(name))} in ${
+                styleOutFsPath(outCwd(ctx))
+              }`,
+            );
+            l.logGroup(ctx, () => {
+              l.error(
+                ctx,
+                `The file was written once evaluation had settled, before this fragment was contributed.`,
+              );
+              l.error(
+                ctx,
+                `Created at ${styleDebuggingInformation(existing.source)}`,
+              );
+            });
+            ctx.halt();
+            return "";
+          }
+
+          const fragments = existing.node.fragments;
+          appended = { fragments, index: fragments.push(null) - 1 };
+        } else {
+          // Cannot append to something that is not in append mode, error out.
+          shouldAddNode(ctx, outDir, "timid", name);
+        }
+
+        return <fragment exps={children} />;
+      }}
+    />
+  );
+
+  // Write the file once evaluation has settled and all fragments are known.
+  const write = (
+    <impure
+      fun={async (ctx: Context) => {
+        if (appended === null) {
+          return null;
+        } else if (created === null) {
+          // Some other macro writes the file.
+          return "";
+        }
+
+        const { fragments } = appended;
+        if (!ctx.mustMakeProgress() || fragments.includes(null)) {
+          return null;
+        }
+
+        const content = await postProcess(
           ctx,
-          `The non-directory was created at ${
-            styleDebuggingInformation(currentNode.source)
-          }`,
+          created.path,
+          fragments.join(""),
         );
-      });
-      ctx.halt();
-      throw "just halted";
-    }
+        if (!created.incremental) {
+          // Delete any prior version of the file from the backend.
+          await created.backend.ensureNot(ctx, created.path);
+        }
+        return await writeOutFile(ctx, created, content);
+      }}
+    />
+  );
 
-    // Neither leaf file nor symlink, so we are in a directory.
-    // Look up the next path component.
-    let nextNode = currentNode.node.get(fst);
-    if (nextNode === undefined) {
-      // Path component not found. Should we create the directory?
-      if (create) {
-        // Yes, create the directory and act like it always was there.
-        nextNode = {
-          source: ctx.getCurrentDebuggingInformation(),
-          node: new Map(),
-        };
-        currentNode.node.set(fst, nextNode);
-        Deno.mkdirSync(join(getState(ctx).mount, ...resolved, fst));
-      } else {
-        // No, error instead of creating missing components.
-        logResolveFailure(ctx, path, from);
-        l.error(
+  return (
+    <>
+      <InFile name={name}>
+        <map
+          fun={(evaled: string) => {
+            if (appended !== null) {
+              appended.fragments[appended.index] = evaled;
+            }
+            return evaled;
+          }}
+        >
+          {contribute}
+        </map>
+      </InFile>
+      {write}
+    </>
+  );
+}
+
+/**
+ * Create a binary file in the current out directory, and write the bytes
+ * produced by the `data` callback there.
+ *
+ * @param name - The name of the file to create.
+ * @param mode - What to do if there is already a file at this name. Defaults to
+ * `"timid"`.
+ * @param data - Produces the file contents. Called at most once, and only if
+ * the file actually gets created.
+ * @returns The empty string.
+ */
+export function BinaryFile({ name, data, mode = "timid" }: {
+  name: string;
+  data: (ctx: Context) => Uint8Array | Promise<Uint8Array>;
+  mode?: Mode;
+}): Expression {
+  return (
+    <InFile name={name}>
+      <impure
+        fun={async (ctx: Context) => {
+          const created = createOutFile(ctx, mode, name);
+          if (created === null) {
+            return "";
+          }
+
+          const bytes = await data(ctx);
+
+          if (!created.incremental) {
+            // Delete any prior version of the file from the backend.
+            await created.backend.ensureNot(ctx, created.path);
+          }
+
+          return await writeOutFile(ctx, created, bytes);
+        }}
+      />
+    </InFile>
+  );
+}
+
+/**
+ * How an `Alias` materializes in the backend:
+ *
+ * - `"symlink"`: as a symbolic link to its target,
+ * - `"copy"`: as a copy of its target,
+ * - `"redirect"`: as an HTML page that immediately redirects to its target
+ *   (via a meta refresh).
+ */
+export type AliasMaterialization = "symlink" | "copy" | "redirect";
+
+/**
+ * Create an alias in the current out directory: a node that points to another
+ * node of the OutFs. Path resolution (e.g., by `Cd`) follows aliases, and the
+ * name of an alias is subject to the same collision checks as the names of
+ * files and directories. This lets you keep old paths alive when restructuring
+ * your output.
+ *
+ * The alias materializes in the backend once evaluation has settled, so its
+ * target can be created after the alias. It is an error if the target does not
+ * exist by then.
+ *
+ * @param name - The name of the alias.
+ * @param target - An {@linkcode OutFsPath} to resolve from the current out
+ * directory.
+ * @param as - How to materialize the alias. Defaults to the `aliases` option
+ * of {@linkcode ConfigOutFs}, which defaults to `"symlink"`.
+ * @param mode - What to do if there is already a node at this name. Defaults
+ * to `"timid"`.
+ * @returns The empty string.
+ */
+export function Alias({ name, target, as, mode = "timid" }: {
+  name: string;
+  target: OutFsPath;
+  as?: AliasMaterialization;
+  mode?: Mode;
+}): Expression {
+  return (
+    <impure
+      fun={async (ctx: Context) => {
+        const state = getState(ctx);
+
+        // Get the current directory (cannot fail).
+        const node = resolveCwd(ctx, false, dummyPath, dummyPath);
+        const outDir = ensureOutNodeIsDir(
           ctx,
-          `  no file ${styleOutFsPath(singletonPath(fst))} in ${
-            styleOutFsPath(absoluteOutFsPath(resolved))
-          }`,
+          node,
+          dummyPath,
+          dummyPath,
+          outCwd(ctx),
         );
-        ctx.halt();
-        throw "just halted";
-      }
+
+        if (!shouldAddNode(ctx, outDir, mode, name)) {
+          return "";
+        }
+
+        // Create the alias in the logical OutFs.
+        const alias: OutAlias = {
+          target: resolveRelativePath(ctx, target).components,
+        };
+        const source = ctx.getCurrentDebuggingInformation();
+        outDir.set(name, { source, node: alias });
+
+        // Delete any prior version from the backend, materialize at the end.
+        const backend = getBackend(ctx);
+        const path = [...state.shell.cwd, name];
+        const materialization = as ?? getConfig(ctx).aliases ?? "symlink";
+        await backend.ensureNot(ctx, path);
+
+        return (
+          <WhenSettled
+            fun={(ctx) =>
+              materializeAlias(
+                ctx,
+                backend,
+                path,
+                alias,
+                source,
+                materialization,
+              )}
+          />
+        );
+      }}
+    />
+  );
+}
+
+/**
+ * Internal function: materialize an alias in its backend, once its target
+ * exists.
+ */
+async function materializeAlias(
+  ctx: Context,
+  backend: OutFsBackend,
+  path: string[],
+  alias: OutAlias,
+  source: DebuggingInformation,
+  materialization: AliasMaterialization,
+) {
+  const target = lookupOutFsNode(getState(ctx).shell.root, alias.target);
+  if (target === null) {
+    logDanglingAlias(ctx, path, alias, source);
+    ctx.halt();
+    return;
+  }
+
+  if (materialization === "symlink") {
+    await backend.symlink(ctx, path, target.path);
+  } else if (materialization === "copy") {
+    await backend.copy(ctx, target.path, path);
+  } else {
+    await backend.writeTextFile(
+      ctx,
+      path,
+      redirectPage(path, target.path, isOutDir(target.node.node)),
+    );
+  }
+}
+
+function logDanglingAlias(
+  ctx: Context,
+  path: string[],
+  alias: OutAlias,
+  source: DebuggingInformation,
+) {
+  l.error(
+    ctx,
+    `Alias ${styleOutFsPath(absoluteOutFsPath(path))} points to ${
+      styleOutFsPath(absoluteOutFsPath(alias.target))
+    }, which does not exist or is part of an alias cycle.`,
+  );
+  l.logGroup(ctx, () => {
+    l.error(
+      ctx,
+      `The alias was created at ${styleDebuggingInformation(source)}`,
+    );
+  });
+}
+
+/**
+ * Internal function: an HTML page at `path` that redirects to `target`, via a
+ * relative URL.
+ */
+function redirectPage(
+  path: string[],
+  target: string[],
+  isDirectory: boolean,
+): string {
+  const from = path.slice(0, -1);
+  let common = 0;
+  while (
+    common < from.length && common < target.length &&
+    from[common] === target[common]
+  ) {
+    common += 1;
+  }
+
+  const ups = new Array<string>(from.length - common).fill("..");
+  let url = [...ups, ...target.slice(common).map(encodeURIComponent)].join(
+    "/",
+  );
+  if (isDirectory) {
+    url = url === "" ? "./" : `${url}/`;
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="refresh" content="0; url=${url}">
+<link rel="canonical" href="${url}">
+<title>Redirect</title>
+</head>
+<body><a href="${url}">${url}</a></body>
+</html>
+`;
+}
+
+/**
+ * A single entry of a build manifest, describing one node of the OutFs.
+ */
+export type OutFsManifestEntry = {
+  /**
+   * The absolute path of the node in the OutFs, rendered as a string.
+   */
+  path: string;
+  /**
+   * Whether the node is a file, a directory, or an alias.
+   */
+  kind: OutFsNodeKind;
+  /**
+   * The size of the file in bytes. `null` for directories, aliases, and files
+   * whose contents have not been written (yet).
+   */
+  size: number | null;
+  /**
+   * The hex-encoded SHA-256 hash of the file contents. `null` for directories,
+   * aliases, and files whose contents have not been written (yet).
+   */
+  hash: string | null;
+  /**
+   * The absolute path that an alias points to, rendered as a string. `null`
+   * for files and directories.
+   */
+  target: string | null;
+  /**
+   * The macro invocation that created the node.
+   */
+  source: DebuggingInformation;
+};
+
+/**
+ * Get a manifest entry for every node in the OutFs (except for its root),
+ * in depth-first order with siblings sorted by name.
+ */
+export function outFsManifest(ctx: Context): OutFsManifestEntry[] {
+  const entries: OutFsManifestEntry[] = [];
+  collectManifestEntries(getState(ctx).shell.root, [], entries);
+  return entries;
+}
+
+function collectManifestEntries(
+  dir: OutDir,
+  path: string[],
+  entries: OutFsManifestEntry[],
+) {
+  for (const name of [...dir.keys()].sort()) {
+    const { source, node } = dir.get(name)!;
+    const childPath = [...path, name];
+    const rendered = renderOutFsPath(absoluteOutFsPath(childPath));
+
+    if (isOutDir(node)) {
+      entries.push({
+        path: rendered,
+        kind: "directory",
+        size: null,
+        hash: null,
+        target: null,
+        source,
+      });
+      collectManifestEntries(node, childPath, entries);
+    } else if (isOutAlias(node)) {
+      entries.push({
+        path: rendered,
+        kind: "alias",
+        size: null,
+        hash: null,
+        target: renderOutFsPath(absoluteOutFsPath(node.target)),
+        source,
+      });
+    } else {
+      entries.push({
+        path: rendered,
+        kind: "file",
+        size: node.written?.size ?? null,
+        hash: node.written?.hash ?? null,
+        target: null,
+        source,
+      });
+    }
+  }
+}
+
+/**
+ * Create a file in the current out directory, containing a JSON manifest of
+ * the whole OutFs: an object whose `entries` field is the array returned by
+ * {@linkcode outFsManifest}. The manifest is produced only once all other
+ * evaluation has settled, so it lists the final build output. Its own entry
+ * has a `null` size and hash.
+ *
+ * @param name - The name of the manifest file. Defaults to `"manifest.json"`.
+ * @param mode - What to do if there is already a file at this name. Defaults to
+ * `"timid"`.
+ * @returns The JSON manifest.
+ */
+export function OutFsManifest(
+  { name = "manifest.json", mode = "timid" }: { name?: string; mode?: Mode },
+): Expression {
+  return (
+    <File name={name} mode={mode}>
+      <OutFsSettled
+        fun={(ctx) => JSON.stringify({ entries: outFsManifest(ctx) }, null, 2)}
+      />
+    </File>
+  );
+}
+
+/**
+ * The file formats supported by the {@linkcode Archive} macro.
+ */
+export type ArchiveFormat = "zip" | "tar";
+
+/**
+ * Create an archive file in the current out directory. Like a `Dir`, the
+ * children can create files and directories, but these end up inside the
+ * archive rather than as loose files. The archive is written once all children
+ * have been evaluated.
+ *
+ * The children are evaluated in a separate OutFs (see {@linkcode Mount}) with
+ * an in-memory backend. Macros which write directly to the physical location
+ * given by `outMount` (such as asset transformations) do not end up in the
+ * archive. Incremental output is disabled inside the archive, so that no
+ * incremental output manifest ends up in it.
+ *
+ * Archives are reproducible: entries are sorted by name, and all timestamps
+ * are fixed.
+ *
+ * @param name - The name of the archive file.
+ * @param format - The {@linkcode ArchiveFormat}. Defaults to `"zip"`.
+ * @param mode - What to do if there is already a file at this name. Defaults to
+ * `"timid"`.
+ * @param children - Expressions to evaluate to create the archive contents.
+ * @returns The evaluated children.
+ */
+export function Archive(
+  { name, format = "zip", mode = "timid", children }: {
+    name: string;
+    format?: ArchiveFormat;
+    mode?: Mode;
+    children?: Expressions;
+  },
+): Expression {
+  const backend = createMemoryBackend();
+
+  return (
+    <map
+      fun={(evaled: string) => (
+        <>
+          {evaled}
+          <BinaryFile
+            name={name}
+            mode={mode}
+            data={async (ctx) => {
+              const entries = collectArchiveEntries(backend, []);
+              return format === "zip"
+                ? await encodeZip(ctx, entries)
+                : encodeTar(ctx, entries);
+            }}
+          />
+        </>
+      )}
+    >
+      <Config
+        options={<ConfigOutFs backend={backend} incremental={false} />}
+      >
+        <Mount path=".">
+          <exps x={children} />
+        </Mount>
+      </Config>
+    </map>
+  );
+}
+
+/**
+ * A single entry of an archive: a file with its contents, or a directory.
+ */
+type ArchiveEntry = {
+  /**
+   * The path inside the archive, with a trailing `/` for directories.
+   */
+  path: string;
+  /**
+   * The file contents, or `null` for directories.
+   */
+  data: Uint8Array | null;
+};
+
+function collectArchiveEntries(
+  backend: MemoryBackend,
+  path: string[],
+): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+
+  for (const name of backend.readDir(absoluteOutFsPath(path)) ?? []) {
+    const childPath = [...path, name];
+    const data = backend.readBinaryFile(absoluteOutFsPath(childPath));
+
+    if (data === null) {
+      entries.push({ path: `${childPath.join("/")}/`, data: null });
+      entries.push(...collectArchiveEntries(backend, childPath));
+    } else {
+      entries.push({ path: childPath.join("/"), data });
     }
+  }
 
-    // Successfully looked up the directory, so we successfully handled the
-    // first path component. Continue the loop with the next component.
-    currentPath = rest;
-    resolved = [...resolved, fst];
-    currentNode = nextNode;
+  return entries;
+}
+
+function failArchive(ctx: Context, msg: string): never {
+  l.error(ctx, `Failed to create archive ${styleOutFsPath(outFullPath(ctx))}`);
+  l.logGroup(ctx, () => l.error(ctx, msg));
+  ctx.halt();
+  throw "just halted";
+}
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
   }
+  return table;
+})();
 
-  return currentNode;
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(
+    new CompressionStream("deflate-raw"),
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
 }
 
 /**
- * Error if the given node is not a directory.
+ * Encode entries as a zip archive (without zip64 extensions). Files are
+ * deflated unless that would not make them smaller.
  */
-function ensureOutNodeIsDir(
+async function encodeZip(
   ctx: Context,
-  node: OutFsNode,
-  path: OutFsPath,
-  from: OutFsPath,
-  resolved: OutFsPath,
-): OutDir {
-  if (isOutDir(node.node)) {
-    return node.node;
-  } else {
-    logResolveFailure(ctx, path, from);
-    l.logGroup(ctx, () => {
-      l.error(ctx, `The path resolved not to a directory but to a file:`);
-      l.error(ctx, `${styleOutFsPath(resolved)}`);
-      l.error(ctx, `File created at ${styleDebuggingInformation(node.source)}`);
-    });
-    ctx.halt();
-    throw "just halted";
+  entries: ArchiveEntry[],
+): Promise<Uint8Array> {
+  if (entries.length > 0xffff) {
+    failArchive(ctx, `Zip archives cannot hold more than 65535 entries.`);
+  }
+
+  // 1980-01-01 00:00, the earliest representable date.
+  const dosTime = 0;
+  const dosDate = (1 << 5) | 1;
+  // Bit 11: names are UTF-8.
+  const flags = 0x0800;
+
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.path);
+    const raw = entry.data ?? new Uint8Array();
+    const deflated = entry.data === null ? raw : await deflateRaw(raw);
+    const useDeflate = deflated.length < raw.length;
+    const stored = useDeflate ? deflated : raw;
+    const crc = crc32(raw);
+
+    if (offset + 30 + name.length + stored.length > 0xffffffff) {
+      failArchive(ctx, `Zip archives cannot be larger than 4 GiB.`);
+    }
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, flags, true);
+    local.setUint16(8, useDeflate ? 8 : 0, true);
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, stored.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, flags, true);
+    header.setUint16(10, useDeflate ? 8 : 0, true);
+    header.setUint16(12, dosTime, true);
+    header.setUint16(14, dosDate, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, stored.length, true);
+    header.setUint32(24, raw.length, true);
+    header.setUint16(28, name.length, true);
+    // Extra field length, comment length, disk number, internal attributes.
+    header.setUint16(30, 0, true);
+    header.setUint16(32, 0, true);
+    header.setUint16(34, 0, true);
+    header.setUint16(36, 0, true);
+    // External attributes: the MS-DOS directory flag.
+    header.setUint32(38, entry.data === null ? 0x10 : 0, true);
+    header.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, stored);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + stored.length;
   }
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(4, 0, true);
+  end.setUint16(6, 0, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  end.setUint16(20, 0, true);
+
+  return concatBytes([...chunks, ...central, new Uint8Array(end.buffer)]);
 }
 
 /**
- * To be used when somethings requires path arguments for error reporting
- * but we know it cannot fail.
+ * Encode entries as a ustar archive.
  */
-const dummyPath = relativeOutFsPath([]);
+function encodeTar(ctx: Context, entries: ArchiveEntry[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+
+  for (const entry of entries) {
+    const header = new Uint8Array(512);
+    const [prefix, name] = splitTarPath(ctx, entry.path);
+    const size = entry.data?.length ?? 0;
+
+    writeTarField(header, 0, 100, name);
+    writeTarField(header, 100, 8, entry.data === null ? "0000755" : "0000644");
+    writeTarField(header, 108, 8, "0000000");
+    writeTarField(header, 116, 8, "0000000");
+    writeTarField(header, 124, 12, size.toString(8).padStart(11, "0"));
+    writeTarField(header, 136, 12, "00000000000");
+    writeTarField(header, 156, 1, entry.data === null ? "5" : "0");
+    writeTarField(header, 257, 6, "ustar");
+    writeTarField(header, 263, 2, "00");
+    writeTarField(header, 345, 155, prefix);
+
+    // The checksum is computed with the checksum field filled with spaces.
+    header.fill(0x20, 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    writeTarField(header, 148, 7, checksum.toString(8).padStart(6, "0"));
+
+    chunks.push(header);
+    if (entry.data !== null) {
+      chunks.push(entry.data);
+      const padding = (512 - (size % 512)) % 512;
+      chunks.push(new Uint8Array(padding));
+    }
+  }
 
-/**
- * Describes what to do if there is already a file of some name.
- *   - `"timid"`: Log error and halt.
- *   - `"placid"`: Do nothing if there is already a file/directory of this name.
- *   - `"assertive"`: Create a new empty directory at this name, no matter what.
- */
-export type Mode = "timid" | "placid" | "assertive";
+  // Two empty blocks mark the end of the archive.
+  chunks.push(new Uint8Array(1024));
+  return concatBytes(chunks);
+}
 
 /**
- * Create a directory in the current out directory, and `cd` there.
- *
- * @param name - The name of the directory to create.
- * @param mode - What to do if there is already a file at this name. defaults
- * to `"timid"`.
- * @param clean - Whether to initially clean out the contents of the directory
- * on the file system. Defaults to **`true`**.
- * @param children - Expressions to evaluate in the new directory.
- * @returns The evaluated children.
+ * Split a path into the `prefix` and `name` fields of a ustar header.
  */
-export function Dir({ name, children: children_, mode = "timid", clean = true }: {
-  name: string;
-  mode?: Mode;
-  clean?: boolean;
-  children?: Expressions;
-}): Expression {
-  const children = expressions(children_);
+function splitTarPath(ctx: Context, path: string): [string, string] {
+  const bytes = new TextEncoder().encode(path);
+  if (bytes.length <= 100) {
+    return ["", path];
+  }
 
-  // First, create the directory both in the OutFS and on the real fs.
-  const createTheDir = (
-    <impure
-      fun={(ctx: Context) => {
-        const state = getState(ctx);
+  // Split at a slash such that both parts fit (ignoring a trailing slash).
+  for (let i = path.length - 2; i > 0; i--) {
+    if (path[i] === "/") {
+      const prefix = path.slice(0, i);
+      const name = path.slice(i + 1);
+      if (
+        new TextEncoder().encode(prefix).length <= 155 &&
+        new TextEncoder().encode(name).length <= 100
+      ) {
+        return [prefix, name];
+      }
+    }
+  }
 
-        // Get the current directory (cannot fail).
-        const node = resolveCwd(ctx, false, dummyPath, dummyPath);
-        const outDir = ensureOutNodeIsDir(
-          ctx,
-          node,
-          dummyPath,
-          dummyPath,
-          outCwd(ctx),
-        );
+  return failArchive(ctx, `The path ${path} is too long for a tar archive.`);
+}
 
-        if (shouldAddNode(ctx, outDir, mode, name)) {
-          // Time to create an empty directory:
-          // in the logical OutFs...
-          outDir.set(name, {
-            source: ctx.getCurrentDebuggingInformation(),
-            node: new Map(),
-          });
-          // ... and on the real file system.
-          const path = join(state.mount, ...state.shell.cwd, name);
-          return clean ? <EmptyDir dir={path} /> : <EnsureDir path={path} />;
-        } else {
-          return (
-            <EnsureDir path={join(state.mount, ...state.shell.cwd, name)}>
-            </EnsureDir>
-          );
-        }
-      }}
-    />
-  );
+function writeTarField(
+  header: Uint8Array,
+  offset: number,
+  length: number,
+  value: string,
+) {
+  header.set(new TextEncoder().encode(value).subarray(0, length), offset);
+}
 
-  return (
-    <map
-      fun={(_: string, _ctx: Context) => {
-        return (
-          <Cd path={singletonPath(name)}>
-            <fragment exps={children} />
-          </Cd>
-        );
-      }}
-    >
-      {createTheDir}
-    </map>
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    chunks.reduce((sum, chunk) => sum + chunk.length, 0),
   );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
 }
 
 /**
- * Create a file in current out directory, write the evaluated children there.
- *
- * @param name - The name of the file to create.
- * @param mode - What to do if there is already a file at this name. Defaults to
- * `"timid"`.
- * @param children - Expressions to evaluate to form the file contents.
- * @returns The evaluated children.
+ * Information about a file that was just created in the logical OutFs, and
+ * whose contents still need to be written to the backend.
  */
-export function File({ name, children: children_, mode = "timid" }: {
-  name: string;
-  mode?: Mode;
-  children?: Expressions;
-}): Expression {
-  const children = expressions(children_);
+type CreatedOutFile = {
+  /**
+   * The backend to write to.
+   */
+  backend: OutFsBackend;
+  /**
+   * The components of the absolute path of the file.
+   */
+  path: string[];
+  /**
+   * Whether to write the file incrementally.
+   */
+  incremental: boolean;
+  /**
+   * The file in the logical OutFs.
+   */
+  file: OutFile;
+};
 
-  let createNewFile = true;
+/**
+ * Internal function: create a file of the given name in the current out
+ * directory of the logical OutFs. Returns `null` if no file should be created
+ * (because of the `mode`).
+ */
+function createOutFile(
+  ctx: Context,
+  mode: Mode,
+  name: string,
+): CreatedOutFile | null {
+  const state = getState(ctx);
+
+  // Get the current directory (cannot fail).
+  const node = resolveCwd(ctx, false, dummyPath, dummyPath);
+  const outDir = ensureOutNodeIsDir(
+    ctx,
+    node,
+    dummyPath,
+    dummyPath,
+    outCwd(ctx),
+  );
 
-  // First, create the file in the OutFS.
-  const createTheFile = (
-    <impure
-      fun={(ctx: Context) => {
-        const state = getState(ctx);
+  if (!shouldAddNode(ctx, outDir, mode, name)) {
+    return null;
+  }
 
-        // Get the current directory (cannot fail).
-        const node = resolveCwd(ctx, false, dummyPath, dummyPath);
-        const outDir = ensureOutNodeIsDir(
-          ctx,
-          node,
-          dummyPath,
-          dummyPath,
-          outCwd(ctx),
-        );
+  // Create the file in the logical OutFs.
+  const file: OutFile = { written: null, fragments: null };
+  outDir.set(name, {
+    source: ctx.getCurrentDebuggingInformation(),
+    node: file,
+  });
+
+  return {
+    backend: getBackend(ctx),
+    path: [...state.shell.cwd, name],
+    incremental: getConfig(ctx).incremental ?? false,
+    file,
+  };
+}
 
-        createNewFile = shouldAddNode(ctx, outDir, mode, name);
+/**
+ * Internal function: write the contents of a created file to its backend.
+ * Returns an expression which must be evaluated afterwards.
+ */
+async function writeOutFile(
+  ctx: Context,
+  { backend, path, incremental, file }: CreatedOutFile,
+  content: string | Uint8Array,
+): Promise<Expression> {
+  const bytes = typeof content === "string"
+    ? new TextEncoder().encode(content)
+    : content;
+  const hash = await hashContent(bytes);
+  file.written = { size: bytes.length, hash };
+
+  const write = () =>
+    typeof content === "string"
+      ? backend.writeTextFile(ctx, path, content)
+      : backend.writeFile(ctx, path, content);
+
+  if (!incremental) {
+    await write();
+    return "";
+  }
 
-        if (createNewFile) {
-          // Create the file in the logical OutFs.
-          outDir.set(name, {
-            source: ctx.getCurrentDebuggingInformation(),
-            node: null,
-          });
-          // Delete any prior version of the file from the real fs.
-          return (
-            <>
-              <EnsureNot path={join(state.mount, ...state.shell.cwd, name)} />
-              <fragment exps={children} />
-            </>
-          );
-        } else {
-          return <fragment exps={children} />;
-        }
-      }}
-    />
-  );
+  if (await registerIncrementalFile(ctx, backend, path, hash)) {
+    l.trace(
+      ctx,
+      `Skipped writing unchanged file ${
+        styleOutFsPath(absoluteOutFsPath(path))
+      }`,
+    );
+  } else {
+    await backend.ensureNot(ctx, path);
+    await write();
+  }
+
+  // Remove stale files and persist the manifest at the very end.
+  return <WhenSettled fun={(ctx) => finishIncremental(ctx, backend)} />;
+}
 
+/**
+ * Internal macro: sets the current filename while evaluating the children.
+ */
+function InFile(
+  { name, children }: { name: string; children?: Expressions },
+): Expression {
   let priorFilename: string | null = "";
 
   return (
@@ -611,22 +2968,7 @@ export function File({ name, children: children_, mode = "timid" }: {
         getState(ctx).shell.filename = priorFilename;
       }}
     >
-      <map
-        fun={(evaled: string, ctx: Context) => {
-          if (createNewFile) {
-            const state = getState(ctx);
-            return (
-              <WriteTextFile path={join(state.mount, ...state.shell.cwd, name)}>
-                {evaled}
-              </WriteTextFile>
-            );
-          } else {
-            return evaled;
-          }
-        }}
-      >
-        {createTheFile}
-      </map>
+      <exps x={children} />
     </lifecycle>
   );
 }
@@ -640,8 +2982,34 @@ function shouldAddNode(
   // Add a new directory to the current directory.
   if (outDir.has(name)) {
     // We already have a node at this name.
+    const existing = outDir.get(name)!;
 
-    if (mode === "timid") {
+    if (
+      mode === "assertive" && isOutFile(existing.node) &&
+      existing.node.fragments !== null
+    ) {
+      // Replacing a file in append mode would silently drop its fragments.
+      l.error(
+        ctx,
+        `Cannot replace ${styleOutFsPath(singletonPath(name))} in ${
+          styleOutFsPath(outCwd(ctx))
+        }`,
+      );
+      l.logGroup(ctx, () => {
+        l.error(
+          ctx,
+          `File ${
+            styleOutFsPath(singletonPath(name))
+          } is in append mode, and other macros contribute to it.`,
+        );
+        l.error(
+          ctx,
+          `Created at ${styleDebuggingInformation(existing.source)}`,
+        );
+      });
+      ctx.halt();
+      throw "unreachable";
+    } else if (mode === "timid") {
       // Immediately error out.
       l.error(
         ctx,
@@ -656,7 +3024,7 @@ function shouldAddNode(
         );
         l.error(
           ctx,
-          `Created at ${styleDebuggingInformation(outDir.get(name)!.source)}`,
+          `Created at ${styleDebuggingInformation(existing.source)}`,
         );
       });
       ctx.halt();
@@ -667,6 +3035,131 @@ function shouldAddNode(
       return true;
     }
   } else {
+    checkPortability(ctx, outDir, outCwd(ctx), name);
     return true;
   }
 }
+
+/**
+ * Which names the OutFs accepts for new files and directories.
+ *   - `"none"`: Accept every name.
+ *   - `"posix"`: Reject empty names, `.`, `..`, and names containing `/` or
+ *     null characters.
+ *   - `"strict"`: Additionally reject names that do not work on Windows
+ *     (reserved names like `CON`, characters like `:` or `?`, trailing dots
+ *     or spaces).
+ *
+ * Under `"posix"` and `"strict"`, names that differ from another name in the
+ * same directory only in letter case are rejected as well, since they collide
+ * on case-insensitive file systems.
+ */
+export type Portability = "strict" | "posix" | "none";
+
+/**
+ * Error if `name` is not acceptable for a new node in `outDir` (whose path is
+ * `dirPath`) under the configured {@linkcode Portability}.
+ */
+function checkPortability(
+  ctx: Context,
+  outDir: OutDir,
+  dirPath: OutFsPath,
+  name: string,
+) {
+  const portability = getConfig(ctx).portability ?? "none";
+  const problem = portabilityProblem(portability, name);
+
+  const logCannotCreate = () =>
+    l.error(
+      ctx,
+      `Cannot create ${styleOutFsPath(singletonPath(name))} in ${
+        styleOutFsPath(dirPath)
+      }`,
+    );
+
+  if (problem !== null) {
+    logCannotCreate();
+    l.logGroup(ctx, () => {
+      l.error(ctx, problem);
+      l.error(ctx, `The portability policy is ${Colors.yellow(portability)}.`);
+    });
+    ctx.halt();
+    throw "just halted";
+  }
+
+  if (portability === "none") {
+    return;
+  }
+
+  const folded = foldCase(name);
+  for (const [other, node] of outDir) {
+    if (other !== name && foldCase(other) === folded) {
+      logCannotCreate();
+      l.logGroup(ctx, () => {
+        l.error(
+          ctx,
+          `It differs from ${
+            styleOutFsPath(singletonPath(other))
+          } only in letter case.`,
+        );
+        l.error(
+          ctx,
+          `${styleOutFsPath(singletonPath(other))} created at ${
+            styleDebuggingInformation(node.source)
+          }`,
+        );
+        l.error(
+          ctx,
+          `${styleOutFsPath(singletonPath(name))} created at ${
+            styleDebuggingInformation(ctx.getCurrentDebuggingInformation())
+          }`,
+        );
+      });
+      ctx.halt();
+      throw "just halted";
+    }
+  }
+}
+
+/**
+ * Return a description of why `name` violates the given policy, or `null` if
+ * it does not.
+ */
+function portabilityProblem(
+  portability: Portability,
+  name: string,
+): string | null {
+  if (portability === "none") {
+    return null;
+  }
+
+  if (name === "") {
+    return `The name is empty.`;
+  } else if (name === "." || name === "..") {
+    return `The name ${name} is reserved.`;
+  } else if (name.includes("/")) {
+    return `The name contains a slash.`;
+  } else if (name.includes("\0")) {
+    return `The name contains a null character.`;
+  }
+
+  if (portability === "posix") {
+    return null;
+  }
+
+  if (
+    /[<>:"\\|?*]/.test(name) ||
+    [...name].some((char) => char.charCodeAt(0) < 32)
+  ) {
+    return `The name contains a character that is not allowed on Windows.`;
+  } else if (/[. ]$/.test(name)) {
+    return `The name ends with a dot or a space.`;
+  } else if (/^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i.test(name)) {
+    return `The name is reserved on Windows.`;
+  }
+
+  return null;
+}
+
+function foldCase(name: string): string {
+  return name.normalize("NFC").toLowerCase();
+}
@@ -1,16 +1,35 @@
 import {
   absoluteOutFsPath,
+  Alias,
+  Archive,
+  AtomicBuild,
+  BinaryFile,
   Cd,
+  ConfigOutFs,
+  createMemoryBackend,
   Dir,
   File,
+  incrementalManifestName,
+  Mount,
+  outMount,
+  OutFsBackend,
+  OutFsManifest,
+  OutFsManifestEntry,
+  OutFsPath,
+  OutFsSettled,
+  outExists,
+  outList,
+  outWalk,
   relativeOutFsPath,
+  resolveRelativePath,
 } from "../mod.tsx";
-import { Context, Expression, Expressions, expressions, didWarnOrWorse } from "../deps.ts";
+import { Config, ConfigFs, Context, createMemoryProvider, Expression, Expressions, expressions, didWarnOrWorse } from "../deps.ts";
 import { assertEquals, assertFs } from "../devDeps.ts";
 import { join } from "../deps.ts";
 import { renderOutFsPath } from "../mod.tsx";
 import { outCwd } from "../mod.tsx";
 import { outFilename } from "../mod.tsx";
+import { outFullPath } from "../mod.tsx";
 
 type ExpectedNode = ExpectedDir | string;
 
@@ -38,6 +57,15 @@ function cleanup(path: string) {
   Deno.removeSync(path, { recursive: true });
 }
 
+async function exists(path: string): Promise<boolean> {
+  try {
+    await Deno.stat(path);
+    return true;
+  } catch (_err) {
+    return false;
+  }
+}
+
 Deno.test("basic usage", async () => {
   const ctx = new Context();
   const got = await ctx.evaluate(
@@ -195,6 +223,34 @@ Deno.test("cd out of root", async () => {
   assertEquals(didWarnOrWorse(ctx), true);
 });
 
+Deno.test("resolve relative paths", async () => {
+  const ctx = new Context();
+  const resolved: OutFsPath[] = [];
+  await ctx.evaluate(
+    <Dir name="resolve">
+      <Dir name="a">
+        <Dir name="b">
+          <impure
+            fun={(ctx) => {
+              resolved.push(
+                resolveRelativePath(ctx, relativeOutFsPath(["c"], 1)),
+              );
+              resolved.push(
+                resolveRelativePath(ctx, relativeOutFsPath(["d"], 3)),
+              );
+              return "";
+            }}
+          />
+        </Dir>
+      </Dir>
+    </Dir>,
+  );
+  assertEquals(resolved, [
+    absoluteOutFsPath(["resolve", "a", "c"]),
+    absoluteOutFsPath(["d"]),
+  ]);
+});
+
 Deno.test("file assertive", async () => {
   const ctx = new Context();
   const got = await ctx.evaluate(
@@ -361,4 +417,611 @@ Deno.test("disabling `clean` prop works", async () => {
   await assertFs("testNoClean", "expectedNoClean");
 
   await Deno.remove("testNoClean/B");
-});
\ No newline at end of file
+});
+
+Deno.test("memory backend", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={backend} />}>
+      <Dir name="recipes">
+        <File name="index.md">These are good recipes.</File>
+        <Dir name="dessert">
+          <File name="icecream.md">
+            Put cream into freezer, then eat quickly.
+          </File>
+        </Dir>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got != null, true);
+
+  assertEquals(backend.readDir(absoluteOutFsPath([])), ["recipes"]);
+  assertEquals(backend.readDir(absoluteOutFsPath(["recipes"])), [
+    "dessert",
+    "index.md",
+  ]);
+  assertEquals(
+    backend.readFile(absoluteOutFsPath(["recipes", "index.md"])),
+    "These are good recipes.",
+  );
+  assertEquals(
+    backend.readFile(absoluteOutFsPath(["recipes", "dessert", "icecream.md"])),
+    "Put cream into freezer, then eat quickly.",
+  );
+  assertEquals(
+    backend.readFile(absoluteOutFsPath(["recipes", "dessert"])),
+    null,
+  );
+  assertEquals(await exists("recipes"), false);
+});
+
+Deno.test("incremental output", async () => {
+  const backend = createMemoryBackend();
+  const written: string[] = [];
+  const countingBackend: OutFsBackend = {
+    ...backend,
+    writeTextFile: (ctx, path, content) => {
+      written.push(path.join("/"));
+      return backend.writeTextFile(ctx, path, content);
+    },
+  };
+
+  const ctx1 = new Context();
+  const got1 = await ctx1.evaluate(
+    <Config options={<ConfigOutFs backend={countingBackend} />}>
+      <Dir name="site" incremental>
+        <File name="a">x</File>
+        <File name="b">y</File>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got1, "xy");
+  assertEquals(written, ["site/a", "site/b", incrementalManifestName]);
+
+  written.length = 0;
+
+  const ctx2 = new Context();
+  const got2 = await ctx2.evaluate(
+    <Config options={<ConfigOutFs backend={countingBackend} />}>
+      <Dir name="site" incremental>
+        <File name="a">x</File>
+        <File name="c">z</File>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got2, "xz");
+  assertEquals(written, ["site/c", incrementalManifestName]);
+  assertEquals(backend.readFile(absoluteOutFsPath(["site", "a"])), "x");
+  assertEquals(backend.readFile(absoluteOutFsPath(["site", "b"])), null);
+  assertEquals(backend.readFile(absoluteOutFsPath(["site", "c"])), "z");
+});
+
+Deno.test("incremental manifest location", async () => {
+  const backend = createMemoryBackend();
+  const provider = createMemoryProvider();
+  const manifest = "/cache/outfs-manifest.json";
+
+  const build = (name: string) => {
+    const ctx = new Context();
+    return ctx.evaluate(
+      <Config options={<ConfigFs provider={provider} />}>
+        <Config
+          options={
+            <ConfigOutFs
+              backend={backend}
+              incremental
+              incrementalManifest={manifest}
+            />
+          }
+        >
+          <Dir name="site">
+            <File name={name}>x</File>
+          </Dir>
+        </Config>
+      </Config>,
+    );
+  };
+
+  assertEquals(await build("a"), "x");
+  // The manifest is not part of the output.
+  assertEquals(backend.readDir(absoluteOutFsPath([])), ["site"]);
+  assertEquals(
+    Object.keys(JSON.parse(await provider.readTextFile(manifest)).files),
+    ["site/a"],
+  );
+
+  // The next build finds the manifest, and removes the file it lists.
+  assertEquals(await build("b"), "x");
+  assertEquals(backend.readDir(absoluteOutFsPath(["site"])), ["b"]);
+  assertEquals(
+    Object.keys(JSON.parse(await provider.readTextFile(manifest)).files),
+    ["site/b"],
+  );
+});
+
+Deno.test("binary file", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={backend} />}>
+      <Dir name="a">
+        <BinaryFile
+          name="b"
+          data={(ctx) => {
+            assertEquals(outFilename(ctx), "b");
+            return new Uint8Array([0, 1, 255]);
+          }}
+        />
+        <BinaryFile
+          name="b"
+          mode="placid"
+          data={() => new Uint8Array([42])}
+        />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "");
+  assertEquals(
+    backend.readBinaryFile(absoluteOutFsPath(["a", "b"])),
+    new Uint8Array([0, 1, 255]),
+  );
+});
+
+Deno.test("removing stale output", async () => {
+  const backend = createMemoryBackend();
+  const setup = new Context();
+  await backend.ensureDir(setup, ["site", "old"]);
+  await backend.writeTextFile(setup, ["site", "old", "x"], "x");
+  await backend.writeTextFile(setup, ["site", "CNAME"], "example.org");
+  await backend.writeTextFile(setup, ["site", "a"], "outdated");
+  await backend.writeTextFile(setup, ["site", "b"], "b");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config
+      options={<ConfigOutFs backend={backend} keepStale={["CNAME"]} />}
+    >
+      <Dir name="site" clean="stale">
+        <File name="a">a</File>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "a");
+  assertEquals(backend.readDir(absoluteOutFsPath(["site"])), ["CNAME", "a"]);
+  assertEquals(backend.readFile(absoluteOutFsPath(["site", "a"])), "a");
+});
+
+Deno.test("build manifest", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={backend} />}>
+      <Dir name="site">
+        <File name="b">hi</File>
+        <Dir name="a">
+          <BinaryFile name="c" data={() => new Uint8Array([0, 1, 255])} />
+        </Dir>
+        <OutFsManifest />
+      </Dir>
+    </Config>,
+  );
+
+  const manifest = JSON.parse(
+    backend.readFile(absoluteOutFsPath(["site", "manifest.json"]))!,
+  );
+  assertEquals(
+    manifest.entries.map((
+      { path, kind, size, hash }: OutFsManifestEntry,
+    ) => [path, kind, size, hash]),
+    [
+      ["/site", "directory", null, null],
+      ["/site/a", "directory", null, null],
+      [
+        "/site/a/c",
+        "file",
+        3,
+        "26a66b061e8f48f39927c312f25293959729eee95978e2892d49d3512a5cc092",
+      ],
+      [
+        "/site/b",
+        "file",
+        2,
+        "8f434346648f6b96df89dda901c5176b10a6d83961dd3c1ac88b59b2dc327aa4",
+      ],
+      ["/site/manifest.json", "file", null, null],
+    ],
+  );
+});
+
+Deno.test("atomic build", async () => {
+  const build = async (content: string, fail: boolean) => {
+    const ctx = new Context();
+    return await ctx.evaluate(
+      <AtomicBuild>
+        <Dir name="atomic">
+          <File name="a">{content}</File>
+        </Dir>
+        {fail
+          ? (
+            <impure
+              fun={(ctx) => {
+                ctx.halt();
+                return null;
+              }}
+            />
+          )
+          : ""}
+      </AtomicBuild>,
+    );
+  };
+
+  assertEquals(await build("old", false), "old");
+  assertEquals(Deno.readTextFileSync("atomic/a"), "old");
+
+  assertEquals(await build("new", true), null);
+  assertEquals(Deno.readTextFileSync("atomic/a"), "old");
+
+  assertEquals(await build("new", false), "new");
+  assertEquals(Deno.readTextFileSync("atomic/a"), "new");
+  for (const entry of Deno.readDirSync(".")) {
+    assertEquals(entry.name.startsWith(".outfs-"), false);
+  }
+
+  cleanup("atomic");
+});
+
+Deno.test("atomic build only stages its children", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <>
+      <AtomicBuild>
+        <impure
+          fun={(ctx) =>
+            outMount(ctx).startsWith(join(Deno.cwd(), ".outfs-staging-"))
+              ? "staged;"
+              : "not staged;"}
+        />
+      </AtomicBuild>
+      <impure fun={(ctx) => outMount(ctx)} />
+    </>,
+  );
+  assertEquals(got, `staged;${Deno.cwd()}`);
+});
+
+Deno.test("dry run", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigFs dryRun />}>
+      <AtomicBuild>
+        <Dir name="dryRun">
+          <File name="a">x</File>
+          <Cd path={relativeOutFsPath(["created", "on", "demand"])} create>
+            <File name="b">y</File>
+          </Cd>
+        </Dir>
+      </AtomicBuild>
+    </Config>,
+  );
+  assertEquals(got, "xy");
+  assertEquals(await exists("dryRun"), false);
+  for (const entry of Deno.readDirSync(".")) {
+    assertEquals(entry.name.startsWith(".outfs-"), false);
+  }
+});
+
+Deno.test("mount", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <>
+      <Mount path="mounted/public">
+        <File name="index.html">a</File>
+      </Mount>
+      <Mount path="mounted/latex">
+        <File name="index.html">b</File>
+        <impure fun={(ctx) => outMount(ctx)} />
+      </Mount>
+    </>,
+  );
+  assertEquals(got, `ab${join(Deno.cwd(), "mounted", "latex")}`);
+
+  assertFsNode("mounted", [
+    { name: "public", node: [{ name: "index.html", node: "a" }] },
+    { name: "latex", node: [{ name: "index.html", node: "b" }] },
+  ]);
+});
+
+Deno.test("querying the OutFs", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const walked: string[] = [];
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={backend} />}>
+      <Dir name="site">
+        <OutFsSettled
+          fun={(ctx) => {
+            assertEquals(outExists(ctx, relativeOutFsPath(["b"])), true);
+            assertEquals(outExists(ctx, relativeOutFsPath(["c"])), false);
+            assertEquals(outList(ctx, relativeOutFsPath(["b"])), null);
+            assertEquals(outList(ctx, relativeOutFsPath([])), [
+              { name: "a", kind: "directory" },
+              { name: "b", kind: "file" },
+            ]);
+            outWalk(
+              ctx,
+              (path, kind) => walked.push(`${renderOutFsPath(path)} ${kind}`),
+            );
+            return "settled";
+          }}
+        />
+        <File name="b">b</File>
+        <Dir name="a">
+          <File name="x">x</File>
+        </Dir>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "settledbx");
+  assertEquals(walked, [
+    "/site directory",
+    "/site/a directory",
+    "/site/a/x file",
+    "/site/b file",
+  ]);
+});
+
+Deno.test("aliases", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={backend} />}>
+      <Dir name="site">
+        <Alias name="old" target={relativeOutFsPath(["new"])} />
+        <Alias
+          name="old.html"
+          target={relativeOutFsPath(["new", "index.html"])}
+          as="redirect"
+        />
+        <Alias name="copied" target={relativeOutFsPath(["new"])} as="copy" />
+        <Dir name="new">
+          <File name="index.html">hi</File>
+        </Dir>
+        <Cd path={relativeOutFsPath(["old"])}>
+          <File name="b">
+            <impure fun={(ctx) => renderOutFsPath(outFullPath(ctx))} />
+          </File>
+        </Cd>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "hi/site/new/b");
+
+  assertEquals(
+    backend.readFile(absoluteOutFsPath(["site", "new", "b"])),
+    "/site/new/b",
+  );
+  assertEquals(
+    backend.readFile(absoluteOutFsPath(["site", "old", "index.html"])),
+    "hi",
+  );
+  assertEquals(
+    backend.readFile(absoluteOutFsPath(["site", "copied", "b"])),
+    "/site/new/b",
+  );
+  assertEquals(
+    backend.readFile(absoluteOutFsPath(["site", "old.html"]))!.includes(
+      `url=new/index.html`,
+    ),
+    true,
+  );
+});
+
+Deno.test("dangling alias", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={createMemoryBackend()} />}>
+      <Alias name="old" target={relativeOutFsPath(["nope"])} />
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("post-processors", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config
+      options={
+        <ConfigOutFs
+          backend={backend}
+          postProcessors={[
+            {
+              pattern: "*.html",
+              process: (_ctx, content) => content.replaceAll(" ", ""),
+            },
+            {
+              pattern: "*.{html,css}",
+              process: (_ctx, content, path) =>
+                `${content}\n<!-- ${renderOutFsPath(path)} -->`,
+            },
+          ]}
+        />
+      }
+    >
+      <File name="a.html">a b</File>
+      <File name="b.css">a b</File>
+      <File name="c.txt">a b</File>
+    </Config>,
+  );
+  assertEquals(got, "a ba ba b");
+  assertEquals(
+    backend.readFile(absoluteOutFsPath(["a.html"])),
+    "ab\n<!-- /a.html -->",
+  );
+  assertEquals(
+    backend.readFile(absoluteOutFsPath(["b.css"])),
+    "a b\n<!-- /b.css -->",
+  );
+  assertEquals(backend.readFile(absoluteOutFsPath(["c.txt"])), "a b");
+});
+
+Deno.test("file append mode", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={backend} />}>
+      <File name="style.css" mode="append">a</File>
+      <Dir name="components">
+        <Cd path={relativeOutFsPath([], 1)}>
+          <File name="style.css" mode="append">x</File>
+        </Cd>
+      </Dir>
+      <File name="style.css" mode="append">b</File>
+      <File name="style.css" mode="append">c</File>
+    </Config>,
+  );
+  assertEquals(got, "axbc");
+  assertEquals(backend.readFile(absoluteOutFsPath(["style.css"])), "axbc");
+});
+
+Deno.test("file append mode conflicts with other modes", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={createMemoryBackend()} />}>
+      <File name="style.css">a</File>
+      <File name="style.css" mode="append">b</File>
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("file append mode cannot be replaced", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={createMemoryBackend()} />}>
+      <File name="style.css" mode="append">a</File>
+      <File name="style.css" mode="assertive">b</File>
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("file append mode rejects late fragments", async () => {
+  // Contributes a fragment only once the file has been written already.
+  let settledRounds = 0;
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={createMemoryBackend()} />}>
+      <File name="style.css" mode="append">a</File>
+      <impure
+        fun={(ctx) => {
+          if (ctx.mustMakeProgress()) {
+            settledRounds += 1;
+          }
+          return settledRounds < 2
+            ? null
+            : <File name="style.css" mode="append">b</File>;
+        }}
+      />
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("portability", async () => {
+  const build = async (
+    portability: "strict" | "posix" | "none",
+    children: Expressions,
+  ) => {
+    const ctx = new Context();
+    const got = await ctx.evaluate(
+      <Config
+        options={
+          <ConfigOutFs
+            backend={createMemoryBackend()}
+            portability={portability}
+          />
+        }
+      >
+        <exps x={children} />
+      </Config>,
+    );
+    return got !== null && !didWarnOrWorse(ctx);
+  };
+
+  assertEquals(await build("posix", <File name="a/b">x</File>), false);
+  assertEquals(await build("posix", <Dir name=".." />), false);
+  assertEquals(await build("posix", <File name="CON.txt">x</File>), true);
+  assertEquals(await build("strict", <File name="CON.txt">x</File>), false);
+  assertEquals(await build("strict", <File name="a?">x</File>), false);
+  assertEquals(await build("strict", <File name="a.">x</File>), false);
+  assertEquals(await build("strict", <File name="a.txt">x</File>), true);
+  assertEquals(await build("none", <File name="a.">x</File>), true);
+
+  const caseCollision = (
+    <>
+      <File name="README">x</File>
+      <File name="readme">x</File>
+    </>
+  );
+  assertEquals(await build("none", caseCollision), true);
+  assertEquals(await build("posix", caseCollision), false);
+  assertEquals(await build("strict", caseCollision), false);
+});
+
+Deno.test("archives", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={backend} />}>
+      <Archive name="book.tar" format="tar">
+        <Dir name="a">
+          <File name="b.txt">hi</File>
+        </Dir>
+      </Archive>
+      <Archive name="book.zip">
+        <File name="b.txt">hi</File>
+      </Archive>
+    </Config>,
+  );
+  assertEquals(got, "hihi");
+  assertEquals(backend.readDir(absoluteOutFsPath([])), [
+    "book.tar",
+    "book.zip",
+  ]);
+
+  const decode = (bytes: Uint8Array) =>
+    new TextDecoder().decode(bytes).replace(/\0+$/, "");
+  const tar = backend.readBinaryFile(absoluteOutFsPath(["book.tar"]))!;
+  assertEquals(tar.length, 3 * 512 + 1024);
+  assertEquals(decode(tar.subarray(0, 100)), "a/");
+  assertEquals(decode(tar.subarray(512, 612)), "a/b.txt");
+  assertEquals(decode(tar.subarray(1024, 1536)), "hi");
+
+  const zip = backend.readBinaryFile(absoluteOutFsPath(["book.zip"]))!;
+  assertEquals([...zip.subarray(0, 4)], [0x50, 0x4b, 0x03, 0x04]);
+  assertEquals(decode(zip.subarray(30, 35)), "b.txt");
+});
+
+Deno.test("archives ignore incremental output", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  await ctx.evaluate(
+    <Config options={<ConfigOutFs backend={backend} incremental />}>
+      <Archive name="book.tar" format="tar">
+        <File name="b.txt">hi</File>
+      </Archive>
+    </Config>,
+  );
+
+  const tar = backend.readBinaryFile(absoluteOutFsPath(["book.tar"]))!;
+  assertEquals(tar.length, 2 * 512 + 1024);
+  assertEquals(
+    new TextDecoder().decode(tar).includes(incrementalManifestName),
+    false,
+  );
+});